@@ -0,0 +1,99 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { inputClass, num } from "@/components/ui/fields";
+import { CalendarDays, Plus, Trash2, X } from "lucide-react";
+import { ACTIVITIES, PERSON_TYPES, type Activity, type ActivityConfig, type PersonType, type TripChain } from "@/lib/sim";
+
+export const PERSON_TYPE_LABELS: Record<PersonType, string> = {
+  worker: "Worker",
+  student: "Student",
+  retiree: "Retiree",
+  remote: "Remote worker",
+};
+
+type Props = {
+  config: ActivityConfig;
+  onChange: (c: ActivityConfig) => void;
+};
+
+export default function ActivitiesCard({ config, onChange }: Props) {
+  const totalShare = PERSON_TYPES.reduce((s, t) => s + Math.max(config[t].share, 0), 0);
+  const setType = (t: PersonType, patch: Partial<ActivityConfig[PersonType]>) =>
+    onChange({ ...config, [t]: { ...config[t], ...patch } });
+  const setChain = (t: PersonType, i: number, chain: TripChain) =>
+    setType(t, { chains: config[t].chains.map((c, j) => (j === i ? chain : c)) });
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><CalendarDays className="w-5 h-5" /> Activities</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PERSON_TYPES.map((t) => {
+          const spec = config[t];
+          const chainTotal = spec.chains.reduce((s, c) => s + Math.max(c.weight, 0), 0);
+          return (
+            <div key={t} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="font-medium flex-1">{PERSON_TYPE_LABELS[t]}</div>
+                <Label className="text-foreground text-xs">Share</Label>
+                <Input className={`${inputClass} w-20`} type="number" step="0.05" value={spec.share} min={0}
+                  onChange={(e) => setType(t, { share: num(e.target.value) })}
+                />
+                <span className="text-muted-foreground text-xs w-10 text-right">
+                  {((Math.max(spec.share, 0) / Math.max(totalShare, 1e-9)) * 100).toFixed(0)}%
+                </span>
+              </div>
+              {spec.chains.map((chain, i) => (
+                <div key={i} className="flex items-center gap-1 text-xs">
+                  <div className="flex flex-wrap items-center gap-1 flex-1">
+                    <span className="text-muted-foreground">home →</span>
+                    {chain.activities.map((a, ai) => (
+                      <button key={ai} className="px-1.5 py-0.5 rounded bg-muted hover:bg-destructive/20 flex items-center gap-0.5"
+                        title="Remove stop"
+                        onClick={() => setChain(t, i, { ...chain, activities: chain.activities.filter((_, k) => k !== ai) })}
+                      >
+                        {a}<X className="w-3 h-3" />
+                      </button>
+                    ))}
+                    <Select value="" onValueChange={(v) => setChain(t, i, { ...chain, activities: [...chain.activities, v as Activity] })}>
+                      <SelectTrigger className="h-6 w-16 px-1 text-xs bg-input border-border text-foreground"><SelectValue placeholder="+" /></SelectTrigger>
+                      <SelectContent>
+                        {ACTIVITIES.map((a) => <SelectItem key={a} value={a}>{a}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-muted-foreground">{chain.activities.length ? "→ home" : "(stay home)"}</span>
+                  </div>
+                  <Input className={`${inputClass} w-16`} type="number" step="0.1" value={chain.weight} min={0}
+                    title="Relative chance of this day"
+                    onChange={(e) => setChain(t, i, { ...chain, weight: num(e.target.value) })}
+                  />
+                  <span className="text-muted-foreground w-8 text-right">
+                    {((Math.max(chain.weight, 0) / Math.max(chainTotal, 1e-9)) * 100).toFixed(0)}%
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="Delete chain"
+                    onClick={() => setType(t, { chains: spec.chains.filter((_, j) => j !== i) })}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="secondary" size="sm" onClick={() => setType(t, { chains: [...spec.chains, { activities: [], weight: 1 }] })}>
+                <Plus className="w-3 h-3 mr-1" />Chain
+              </Button>
+            </div>
+          );
+        })}
+        <p className="text-muted-foreground text-xs">
+          Each resident gets a type by share and one trip chain per day by weight. Stops no building offers are skipped.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { clamp, inputClass } from "@/components/ui/fields";
+import { Search, X } from "lucide-react";
+import {
+  ACTIVITIES,
+  BUILDING_KINDS,
+  activitySlots,
+  residentCapacity,
+  type Building,
+  type BuildingStats,
+  type SimConfig,
+} from "@/lib/sim";
+
+type Props = {
+  building: Building;
+  cost: number;
+  costFor: (floors: number, baseCapacity: number) => number;
+  provisioning: Pick<SimConfig, "jobsPerWorkplace" | "mealsPerFoodPlace">;
+  stats: BuildingStats | null;  // from the last run; null before any run
+  onChange: (patch: Pick<Building, "floors" | "baseCapacity">) => void;
+  onClose: () => void;
+};
+
+export default function BuildingInspectorCard({ building: b, cost, costFor, provisioning, stats, onChange, onClose }: Props) {
+  const spec = BUILDING_KINDS[b.kind];
+  const residents = residentCapacity(b);
+  const slots = ACTIVITIES.map((a) => [a, activitySlots(b, a, provisioning)] as const).filter(([, n]) => n > 0);
+  const preview = (floors: number, baseCapacity: number) => costFor(floors, baseCapacity) - cost;
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="w-5 h-5" />
+          <span className="inline-flex w-5 h-5 rounded items-center justify-center text-[10px] font-medium text-white"
+            style={{ background: spec.color }}
+          >
+            {spec.glyph}
+          </span>
+          {spec.label} ({b.r}, {b.c})
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" title="Close" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-foreground text-xs">Floors</Label>
+            <Input className={inputClass} type="number" value={b.floors} min={1} max={30}
+              onChange={(e) => onChange({ floors: clamp(parseInt(e.target.value || "0"), 1, 30), baseCapacity: b.baseCapacity })}
+            />
+          </div>
+          <div>
+            <Label className="text-foreground text-xs">Base capacity</Label>
+            <Input className={inputClass} type="number" value={b.baseCapacity} min={1} max={200}
+              onChange={(e) => onChange({ floors: b.floors, baseCapacity: clamp(parseInt(e.target.value || "0"), 1, 200) })}
+            />
+          </div>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          One more floor: {preview(b.floors + 1, b.baseCapacity) >= 0 ? "+" : "−"}$
+          {Math.abs(preview(b.floors + 1, b.baseCapacity)).toLocaleString()} from the budget
+        </p>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+          <div className="text-muted-foreground">Footprint</div>
+          <div>{b.w} × {b.h} cells</div>
+          <div className="text-muted-foreground">Cost</div>
+          <div>${cost.toLocaleString()}</div>
+          {residents > 0 && (
+            <>
+              <div className="text-muted-foreground">Homes</div>
+              <div>{residents}</div>
+            </>
+          )}
+          {slots.map(([a, n]) => (
+            <React.Fragment key={a}>
+              <div className="text-muted-foreground capitalize">{a} slots</div>
+              <div>{n}</div>
+            </React.Fragment>
+          ))}
+        </div>
+
+        {stats ? (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 pt-2 border-t border-border">
+            {residents > 0 && (
+              <>
+                <div className="text-muted-foreground">Residents</div>
+                <div>{stats.residents}</div>
+                <div className="text-muted-foreground">Avg commute</div>
+                <div>{stats.avg_resident_commute_min.toFixed(1)} min</div>
+              </>
+            )}
+            {slots.length > 0 && (
+              <>
+                <div className="text-muted-foreground">Workers / visitors</div>
+                <div>{stats.visitors}</div>
+                <div className="text-muted-foreground">Avg trip here</div>
+                <div>{stats.avg_visitor_trip_min.toFixed(1)} min</div>
+              </>
+            )}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-xs">Run the simulation to see occupants and commutes.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { inputClass, num } from "@/components/ui/fields";
+import { Coins } from "lucide-react";
+import { BUILDING_KIND_ORDER, BUILDING_KINDS, ROAD_CLASS_ORDER, ROAD_CLASSES, type CostModel } from "@/lib/sim";
+
+type Props = {
+  model: CostModel;
+  onChange: (m: CostModel) => void;
+};
+
+export default function CostModelCard({ model, onChange }: Props) {
+  const set = <K extends keyof CostModel>(key: K, value: CostModel[K]) => onChange({ ...model, [key]: value });
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Coins className="w-5 h-5" /> Cost Model</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 items-end text-xs">
+          <div />
+          <Label className="text-foreground text-xs">Build $ / cell</Label>
+          <Label className="text-foreground text-xs">Upkeep $ / cell / yr</Label>
+          {ROAD_CLASS_ORDER.map((cls) => (
+            <React.Fragment key={cls}>
+              <div className="text-muted-foreground self-center">{ROAD_CLASSES[cls].label}</div>
+              <Input className={inputClass} type="number" step="500" value={model.roadBuildPerCell[cls]} min={0}
+                onChange={(e) => set("roadBuildPerCell", { ...model.roadBuildPerCell, [cls]: num(e.target.value) })}
+              />
+              <Input className={inputClass} type="number" step="50" value={model.roadMaintenancePerCell[cls]} min={0}
+                onChange={(e) => set("roadMaintenancePerCell", { ...model.roadMaintenancePerCell, [cls]: num(e.target.value) })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 items-end text-xs">
+          <div />
+          <Label className="text-foreground text-xs">× house cost</Label>
+          <Label className="text-foreground text-xs">Upkeep % / yr</Label>
+          {BUILDING_KIND_ORDER.map((kind) => (
+            <React.Fragment key={kind}>
+              <div className="text-muted-foreground self-center">{BUILDING_KINDS[kind].label}</div>
+              <Input className={inputClass} type="number" step="0.1" value={model.buildingCostFactor[kind]} min={0}
+                onChange={(e) => set("buildingCostFactor", { ...model.buildingCostFactor, [kind]: num(e.target.value) })}
+              />
+              <Input className={inputClass} type="number" step="0.5" value={+(model.buildingMaintenanceRate[kind] * 100).toFixed(2)} min={0}
+                onChange={(e) => set("buildingMaintenanceRate", { ...model.buildingMaintenanceRate, [kind]: num(e.target.value) / 100 })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <Label className="text-foreground text-xs">Land $ / cell</Label>
+            <Input className={inputClass} type="number" step="500" value={model.landValuePerCell} min={0}
+              onChange={(e) => set("landValuePerCell", num(e.target.value))}
+            />
+          </div>
+          <div>
+            <Label className="text-foreground text-xs">Centre premium (×)</Label>
+            <Input className={inputClass} type="number" step="0.5" value={model.landValueCenterPremium} min={0}
+              onChange={(e) => set("landValueCenterPremium", num(e.target.value))}
+            />
+          </div>
+          <div>
+            <Label className="text-foreground text-xs">Tax $ / job / yr</Label>
+            <Input className={inputClass} type="number" step="1000" value={model.taxPerJobPerYear} min={0}
+              onChange={(e) => set("taxPerJobPerYear", num(e.target.value))}
+            />
+          </div>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Buildings cost the house formula × their factor per footprint cell, plus land. Land costs most at the map centre.
+          Edits apply to new construction; the ledger keeps what was paid.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,105 +6,191 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Trash2, Play, Grid as GridIcon, Route, Factory, Home, Sandwich, Map as MapIcon, Settings, Wand2 } from "lucide-react";
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip } from "recharts";
-
-type Cell = { r: number; c: number };
-type BuildingKind = "house" | "work" | "food";
-type Building = { kind: BuildingKind; r: number; c: number; floors: number; baseCapacity: number };
-type Person = { id: number; house?: Building; work?: Building; food?: Building };
-
-function keyOf(r: number, c: number) {
-  return `${r},${c}`;
-}
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Plus, Trash2, Play, Grid as GridIcon, Route, Factory, Home, Sandwich, Map as MapIcon, Settings, Wand2, Dices, X, Footprints, Bus, Bike,
+  GraduationCap, ShoppingBag, Trees, Stethoscope, Building2, MousePointer, Undo2, Redo2, Download, FolderOpen, Link2, Check, Pause, type LucideIcon,
+} from "lucide-react";
+import { ResponsiveContainer, BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, Tooltip, Cell as BarCell } from "recharts";
+import {
+  keyOf,
+  manhattanPath,
+  MIN_GRID_SIZE,
+  MAX_GRID_SIZE,
+  MIN_CELL_SIZE_M,
+  MAX_CELL_SIZE_M,
+  MAX_POPULATION,
+  MAX_SEED,
+  houseCost as computeHouseCost,
+  buildingCost as computeBuildingCost,
+  roadCost as computeRoadCost,
+  annualOperations,
+  addToLedger,
+  ledgerTotal,
+  defaultCostModel,
+  type CostModel,
+  type HouseCostParams,
+  type LedgerEntry,
+  type Cell,
+  type BuildingKind,
+  type Building,
+  type DistanceMode,
+  type Metrics,
+  type SimConfig,
+  createRng,
+  randomSeed,
+  generateDefaultCity,
+  type SimProgress,
+  type RoadClass,
+  type RoadNetwork,
+  type TransitLine,
+  type TripMode,
+  type TimeSlice,
+  type TravelMode,
+  type ModeChoiceModel,
+  type DestinationModel,
+  type CapacityMode,
+  type HousingModel,
+  type HouseOccupancy,
+  type ActivityConfig,
+  defaultActivityConfig,
+  type TrafficConfig,
+  defaultTrafficConfig,
+  type TimeOfDayConfig,
+  defaultTimeOfDayConfig,
+  PERSON_TYPES,
+  type LogitConfig,
+  defaultLogitConfig,
+  TRIP_MODES,
+  ROAD_CLASSES,
+  ROAD_CLASS_ORDER,
+  defaultRoadSpeeds,
+  BUILDING_KINDS,
+  BUILDING_KIND_ORDER,
+  activitySlots,
+  residentCapacity,
+  capacityUnits,
+  footprintArea,
+  footprintCells,
+  createRoadNetworks,
+  jobsWithin,
+  travelMinutesFrom,
+  agentPositionsAt,
+} from "@/lib/sim";
+import TransitLinesCard, { transitColor } from "@/components/ui/TransitLinesCard";
+import ModeChoiceCard from "@/components/ui/ModeChoiceCard";
+import ActivitiesCard, { PERSON_TYPE_LABELS } from "@/components/ui/ActivitiesCard";
+import BuildingInspectorCard from "@/components/ui/BuildingInspectorCard";
+import CostModelCard from "@/components/ui/CostModelCard";
+import TrafficCard from "@/components/ui/TrafficCard";
+import TimeOfDayCard from "@/components/ui/TimeOfDayCard";
+import { clamp } from "@/components/ui/fields";
+import { createSimulationWorker, type SimulationHandle, type SimulationWorker } from "@/lib/sim/client";
+import { checkpoint, emptyHistory, redo, undo, type History } from "@/lib/history";
+import { parseScenario, scenarioWorld, serializeScenario, toScenario, type Scenario } from "@/lib/scenarioFile";
+import { decodeScenarioLink, encodeScenarioLink, hasScenarioLink } from "@/lib/scenarioLink";
+
+const modeColors: Record<TripMode, string> = {
+  walk: "#059669",
+  bike: "#0284c7",
+  transit: "#7c3aed",
+  drive: "#dc2626",
+};
 
-function manhattanPath(a: Cell, b: Cell): Cell[] {
-  const path: Cell[] = [];
-  const dr = a.r <= b.r ? 1 : -1;
-  for (let r = a.r; r !== b.r + dr; r += dr) path.push({ r, c: a.c });
-  const dc = a.c <= b.c ? 1 : -1;
-  for (let c = a.c; c !== b.c + dc; c += dc) path.push({ r: b.r, c });
-  return path;
-}
+const roadFill: Record<RoadClass, string> = {
+  local: "bg-muted",
+  arterial: "bg-neutral-300",
+  highway: "bg-neutral-500",
+  path: "bg-lime-200",
+};
 
-// BFS on roads (4-neighbors)
-function shortestPathLenCells(
-  rows: number,
-  cols: number,
-  roads: Set<string>,
-  start: Cell,
-  goal: Cell
-): number | null {
-  const inBounds = (r: number, c: number) => r >= 0 && c >= 0 && r < rows && c < cols;
-
-  const nearestRoad = (cell: Cell): string | null => {
-    const sKey = keyOf(cell.r, cell.c);
-    if (roads.has(sKey)) return sKey;
-    const q: Cell[] = [cell];
-    const seen = new Set<string>([sKey]);
-    while (q.length) {
-      const cur = q.shift()!;
-      const nbrs = [
-        { r: cur.r + 1, c: cur.c },
-        { r: cur.r - 1, c: cur.c },
-        { r: cur.r, c: cur.c + 1 },
-        { r: cur.r, c: cur.c - 1 },
-      ];
-      for (const n of nbrs) {
-        if (!inBounds(n.r, n.c)) continue;
-        const k = keyOf(n.r, n.c);
-        if (seen.has(k)) continue;
-        if (roads.has(k)) return k;
-        seen.add(k);
-        q.push(n);
-      }
-    }
-    return null;
-  };
+// World state an undo step restores; all of it is replaced, never mutated
+type WorldEdit = {
+  roads: RoadNetwork;
+  walkways: Set<string>;
+  bikeLanes: Set<string>;
+  transitLines: TransitLine[];
+  buildings: Building[];
+  ledger: LedgerEntry[];
+  paid: Map<string, number>;
+};
 
-  const sKey = nearestRoad(start);
-  const gKey = nearestRoad(goal);
-  if (!sKey || !gKey) return null;
-  if (sKey === gKey) return 0;
-
-  const q: string[] = [sKey];
-  const dist = new Map<string, number>([[sKey, 0]]);
-  const deltas = [
-    [1, 0],
-    [-1, 0],
-    [0, 1],
-    [0, -1],
-  ];
-  while (q.length) {
-    const cur = q.shift()!;
-    const [r, c] = cur.split(",").map(Number);
-    for (const [dr, dc] of deltas) {
-      const nr = r + dr, nc = c + dc;
-      if (!inBounds(nr, nc)) continue;
-      const nk = keyOf(nr, nc);
-      if (!roads.has(nk) || dist.has(nk)) continue;
-      dist.set(nk, (dist.get(cur) ?? 0) + 1);
-      if (nk === gKey) return dist.get(nk)!;
-      q.push(nk);
-    }
-  }
-  return null;
+const sameEdit = (a: WorldEdit, b: WorldEdit) =>
+  a.roads === b.roads &&
+  a.walkways === b.walkways &&
+  a.bikeLanes === b.bikeLanes &&
+  a.transitLines === b.transitLines &&
+  a.buildings === b.buildings &&
+  a.ledger === b.ledger &&
+  a.paid === b.paid;
+
+// What each road cell and building was bought for is kept under these keys,
+// so erasing it refunds exactly that
+const roadPaidKey = (k: string) => `road:${k}`;
+const buildingPaidKey = (b: Building) => `building:${b.r},${b.c}`;
+
+// A whole layout bought at once: what each item costs and the total
+function priceLayout(
+  grid: { rows: number; cols: number },
+  roads: RoadNetwork,
+  buildings: Building[],
+  house: HouseCostParams,
+  costModel: CostModel
+) {
+  const paid = new Map<string, number>();
+  roads.forEach((cls, k) => {
+    const [r, c] = k.split(",").map(Number);
+    paid.set(roadPaidKey(k), computeRoadCost(grid, cls, r, c, costModel));
+  });
+  for (const b of buildings) paid.set(buildingPaidKey(b), computeBuildingCost(grid, b, house, costModel));
+  let spent = 0;
+  paid.forEach((v) => (spent += v));
+  return { paid, spent };
 }
 
-function clamp(n: number, a: number, b: number) {
-  return Math.max(a, Math.min(b, n));
-}
+const AUTOSAVE_KEY = "mobility-grid-world:scenario";
+
+// Grid overlays: legs through each cell or peak v/c from the last run, or
+// travel times and job access computed live from the current layout
+type Overlay = "off" | TripMode | "total" | "vc" | "isochrone" | "jobs";
+const overlayLabels: Record<Overlay, string> = {
+  off: "No overlay",
+  walk: "Walkers",
+  bike: "Cyclists",
+  transit: "Transit riders",
+  drive: "Drivers",
+  total: "All trips",
+  vc: "Volume ÷ capacity",
+  isochrone: "Isochrone",
+  jobs: "Jobs within reach",
+};
+const ISO_BANDS = 3;
+const accessModeLabels: Record<TravelMode, string> = { walk: "Walking", bike: "Cycling", drive: "Driving" };
+// v/c at or above this gets the hottest colour
+const VC_SCALE_MAX = 1.25;
+// Green (low) to red (high), more opaque as it heats up
+const heatColor = (t: number) => `hsla(${120 * (1 - t)}, 85%, 45%, ${0.35 + 0.5 * t})`;
+
+// 7.5 -> "07:30"
+const formatHour = (h: number) => {
+  const min = Math.floor(h * 60 + 1e-6);
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+};
 
-type Metrics = {
-  population: number;
-  avg_walk_m_per_day: number;
-  avg_drive_m_per_day: number;
-  avg_travel_time_min_per_day: number;
-  total_emissions_kg_per_day: number;
-  drivers_count: number;
-  unreachable_legs: number;
-  travel_in: number;   // NEW inbound commuters
-  travel_out: number;  // NEW outbound commuters
+// Simulated minutes per real second
+const PLAYBACK_SPEEDS = [5, 15, 30, 60, 120];
+
+// Toolbar icon per building kind; colour and glyph come from the registry
+const buildingIcons: Record<BuildingKind, LucideIcon> = {
+  house: Home,
+  work: Factory,
+  food: Sandwich,
+  school: GraduationCap,
+  retail: ShoppingBag,
+  park: Trees,
+  healthcare: Stethoscope,
+  mixed: Building2,
 };
 
 
@@ -115,8 +201,13 @@ export default function MobilityGridWorldUI() {
   const [cellSizeM, setCellSizeM] = useState(50);
 
   // World state
-  const [roads, setRoads] = useState<Set<string>>(() => new Set());
+  const [roads, setRoads] = useState<RoadNetwork>(() => new Map());
+  const [walkways, setWalkways] = useState<Set<string>>(() => new Set());
+  const [bikeLanes, setBikeLanes] = useState<Set<string>>(() => new Set());
   const [buildings, setBuildings] = useState<Building[]>([]);
+  const [transitLines, setTransitLines] = useState<TransitLine[]>([]);
+  const [activeLineId, setActiveLineId] = useState<number | null>(null);
+  const [transitMaxTimeRatio, setTransitMaxTimeRatio] = useState(1.5);
 
   // People & sim config
   const [population, setPopulation] = useState(2100);
@@ -125,7 +216,22 @@ export default function MobilityGridWorldUI() {
   const [walkEmissionsKgPerKm, setWalkEmissionsKgPerKm] = useState(0);
   const [carSpeed, setCarSpeed] = useState(35);
   const [walkSpeed, setWalkSpeed] = useState(4.8);
-  const [distanceMode, setDistanceMode] = useState<"road" | "euclid" | "manhattan">("road");
+  const [bikeSpeed, setBikeSpeed] = useState(15);
+  const [bikeLaneSpeedKmh, setBikeLaneSpeedKmh] = useState(20);
+  const [bikeMaxM, setBikeMaxM] = useState(2000);
+  const [bikeEmissionsKgPerKm, setBikeEmissionsKgPerKm] = useState(0);
+  const [distanceMode, setDistanceMode] = useState<DistanceMode>("road");
+  const [seed, setSeed] = useState(42);
+  const [roadSpeedsKmh, setRoadSpeedsKmh] = useState<Record<RoadClass, number>>(defaultRoadSpeeds);
+  const [destinationModel, setDestinationModel] = useState<DestinationModel>("gravity");
+  const [destinationDecayPerKm, setDestinationDecayPerKm] = useState(0.5);
+  const [capacityAssignment, setCapacityAssignment] = useState<CapacityMode>("greedy");
+  const [housingModel, setHousingModel] = useState<HousingModel>("proportional");
+  const [activities, setActivities] = useState<ActivityConfig>(defaultActivityConfig);
+  const [traffic, setTraffic] = useState<TrafficConfig>(defaultTrafficConfig);
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDayConfig>(defaultTimeOfDayConfig);
+  const [modeChoice, setModeChoice] = useState<ModeChoiceModel>("logit");
+  const [logit, setLogit] = useState<LogitConfig>(defaultLogitConfig);
 
   // Workforce / provisioning constraints
   const [jobsPerWorkplace, setJobsPerWorkplace] = useState(80);
@@ -136,367 +242,645 @@ const [boundaryPenaltyKgPerPerson, setBoundaryPenaltyKgPerPerson] = useState(15)
 
   // Budget & cost model for housing
   const [budgetTotal, setBudgetTotal] = useState(5_000_000);
-  const [budgetSpent, setBudgetSpent] = useState(0);
+  // Every spend and refund; what has been spent is their sum
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const budgetSpent = ledgerTotal(ledger);
+  const record = (label: string, amount: number) => setLedger((prev) => addToLedger(prev, label, amount));
+  const [paid, setPaid] = useState<Map<string, number>>(() => new Map());
+  const setPaidFor = (key: string, amount: number | null) =>
+    setPaid((prev) => {
+      const next = new Map(prev);
+      if (amount === null) next.delete(key);
+      else next.set(key, amount);
+      return next;
+    });
+  const [costModel, setCostModel] = useState<CostModel>(defaultCostModel);
   const [houseBaseCost, setHouseBaseCost] = useState(13_000);
   const [capExp, setCapExp] = useState(1.5);
   const [floorExp, setFloorExp] = useState(1.6);
   const [hiRiseThreshold, setHiRiseThreshold] = useState(6);
   const [hiRisePenalty, setHiRisePenalty] = useState(50_000);
 
-  const houseCost = (fl: number, cap: number) => {
-    const penalty = fl > hiRiseThreshold ? hiRisePenalty * Math.pow(fl - hiRiseThreshold, 2) : 0;
-    return Math.round(houseBaseCost * Math.pow(cap, capExp) * Math.pow(fl, floorExp) + penalty);
-  };
+  const houseParams = { houseBaseCost, capExp, floorExp, hiRiseThreshold, hiRisePenalty };
+  const houseCost = (fl: number, cap: number) => computeHouseCost(fl, cap, houseParams);
+  const costOf = (b: Building) => computeBuildingCost({ rows, cols }, b, houseParams, costModel);
+  const roadCostAt = (cls: RoadClass, r: number, c: number) => computeRoadCost({ rows, cols }, cls, r, c, costModel);
 
   // Toolbar state
-  const [tool, setTool] = useState<"road" | "erase" | BuildingKind>("road");
+  const [tool, setTool] = useState<"road" | "walkway" | "bikeLane" | "transit" | "erase" | "select" | BuildingKind>("road");
   const [paintMode, setPaintMode] = useState<"draw" | "line">("draw");
+  const [roadClass, setRoadClass] = useState<RoadClass>("local");
   const [floors, setFloors] = useState(3);
   const [baseCapacity, setBaseCapacity] = useState(12);
   const mouseDownRef = useRef(false);
   const [statusMsg, setStatusMsg] = useState<string>("");
 
+  // Undo/redo: everything an edit can touch, including what it cost
+  const [history, setHistory] = useState<History<WorldEdit>>(emptyHistory);
+  const snapshot = (): WorldEdit => ({ roads, walkways, bikeLanes, transitLines, buildings, ledger, paid });
+  // Steps before an edit; a mouse stroke records one step when it starts
+  const beginEdit = (key?: string) => setHistory((h) => checkpoint(h, snapshot(), sameEdit, key));
+  const restore = (w: WorldEdit) => {
+    setRoads(w.roads);
+    setWalkways(w.walkways);
+    setBikeLanes(w.bikeLanes);
+    setTransitLines(w.transitLines);
+    setBuildings(w.buildings);
+    setLedger(w.ledger);
+    setPaid(w.paid);
+  };
+  function undoEdit() {
+    const step = undo(history, snapshot(), sameEdit);
+    if (!step) return;
+    setHistory(step.history);
+    restore(step.state);
+  }
+  function redoEdit() {
+    const step = redo(history, snapshot());
+    if (!step) return;
+    setHistory(step.history);
+    restore(step.state);
+  }
+  const historyKeys = useRef({ undo: undoEdit, redo: redoEdit });
+  historyKeys.current = { undo: undoEdit, redo: redoEdit };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      // Leave text fields their own undo
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) return;
+      e.preventDefault();
+      if (e.shiftKey) historyKeys.current.redo();
+      else historyKeys.current.undo();
+    };
+    // A stroke released outside the grid still ends there
+    const onUp = () => {
+      mouseDownRef.current = false;
+      setFootprintDrag(null);
+    };
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("mouseup", onUp);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("mouseup", onUp);
+    };
+  }, []);
+
   // Derived totals
   const totalHousingCapacity = useMemo(
     () =>
-      buildings
-        .filter((b) => b.kind === "house")
-        .reduce((acc, b) => acc + b.floors * b.baseCapacity, 0),
+      buildings.reduce((acc, b) => acc + residentCapacity(b), 0),
     [buildings]
   );
 
-  const totalWorkplaces = useMemo(() => buildings.filter((b) => b.kind === "work").length, [buildings]);
-  const budgetRevenue = useMemo(() => totalWorkplaces * 2_000_000, [totalWorkplaces]);
-  const totalFoodPlaces = useMemo(() => buildings.filter((b) => b.kind === "food").length, [buildings]);
+  const totalJobs = useMemo(
+    () => buildings.reduce((acc, b) => acc + activitySlots(b, "work", { jobsPerWorkplace, mealsPerFoodPlace }), 0),
+    [buildings, jobsPerWorkplace, mealsPerFoodPlace]
+  );
+  const totalSeats = useMemo(
+    () => buildings.reduce((acc, b) => acc + activitySlots(b, "food", { jobsPerWorkplace, mealsPerFoodPlace }), 0),
+    [buildings, jobsPerWorkplace, mealsPerFoodPlace]
+  );
+  // One year of job tax less upkeep adds to the budget
+  const operations = annualOperations(
+    { rows, cols, roads, buildings },
+    houseParams,
+    costModel,
+    { jobsPerWorkplace, mealsPerFoodPlace }
+  );
+  const available = budgetTotal + operations.net - budgetSpent;
 
   // Canvas rendering size
   const cellPx = 26;
   const widthPx = cols * cellPx;
   const heightPx = rows * cellPx;
 
-  // Seed default scenario on first load
-useEffect(() => {
-  const targetRows = 25, targetCols = 30;
-  const targetPopulation = 2100;
-  const targetBudget = 75_000_000;
-
-  const houseCount = 117, workCount = 32, foodCount = 11;
-  const houseFloors = 3, houseBaseCap = 6;
-  const capacity_exp = 1.5;
-  const base_cost = 13_000;
-
-  // Build roads (auto grid every 3)
-  const rds = new Set<string>();
-  for (let r = 0; r < targetRows; r++) if (r % 3 === 0) for (let c = 0; c < targetCols; c++) rds.add(keyOf(r, c));
-  for (let c = 0; c < targetCols; c++) if (c % 3 === 0) for (let r = 0; r < targetRows; r++) rds.add(keyOf(r, c));
-
-  const occupied = new Set<string>();
-  const B: Building[] = [];
-  const addIfFree = (kind: BuildingKind, r: number, c: number, fl: number, cap: number) => {
-    const k = keyOf(r, c);
-    if (rds.has(k) || occupied.has(k)) return false;
-    occupied.add(k);
-    B.push({ kind, r, c, floors: fl, baseCapacity: cap });
-    return true;
-  };
-
-  // Houses: bottom-left (avoid roads)
-  let placed = 0;
-const houseRowStart = Math.floor(targetRows * 0.6);
-const houseColEnd   = Math.floor(targetCols * 0.4);
-
-for (let r = targetRows - 1; r >= houseRowStart && placed < houseCount; r--) {
-for (let c = houseColEnd - 1; c >= 0 && placed < houseCount; c--) {
-    if (addIfFree("house", r, c, houseFloors, houseBaseCap)) placed++;
-}
-}
+  function seedDefaultCity() {
+    const targetPopulation = 2100;
+    const targetBudget = 125_000_000;
+    const houseFloors = 3, houseBaseCap = 6;
+    const capacity_exp = 1.5;
+    const base_cost = 13_000;
+
+    const city = generateDefaultCity(createRng(seed));
+
+    // Compute budget spent for seeded buildings and roads, priced on the
+    // city's own grid and house costs rather than the ones being replaced
+    const cityHouse = { ...houseParams, houseBaseCost: base_cost, capExp: capacity_exp };
+    const { paid: cityPaid, spent } = priceLayout(city, city.roads, city.buildings, cityHouse, costModel);
+
+    // Commit state
+    setRows(city.rows);
+    setCols(city.cols);
+    setPopulation(targetPopulation);
+    setBudgetTotal(targetBudget);
+    setCapExp(capacity_exp);
+    setFloors(houseFloors);
+    setHouseBaseCost(base_cost);
+    setBaseCapacity(houseBaseCap);
+    setLedger(addToLedger([], "Default city", spent));
+    setPaid(cityPaid);
+    setRoads(city.roads);
+    setWalkways(city.walkways);
+    setBikeLanes(city.bikeLanes);
+    setBuildings(city.buildings);
+  }
 
-// Optional fallback sweep if that region can’t fit all houses
-for (let r = targetRows - 1; r >= 0 && placed < houseCount; r--) {
-for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
-    if (addIfFree("house", r, c, houseFloors, houseBaseCap)) placed++;
-}
-}
+  // On first load open a shared link, else the autosave, else the default city
+  const [loaded, setLoaded] = useState(false);
+  useEffect(() => {
+    const fromAutosave = () => {
+      const saved = localStorage.getItem(AUTOSAVE_KEY);
+      const restored = saved ? parseScenario(saved) : null;
+      if (restored?.ok) return applyScenario(restored.scenario);
+      seedDefaultCity();
+      if (restored) setStatusMsg(`Autosave could not be restored: ${restored.error}`);
+    };
+    const hash = window.location.hash;
+    if (!hasScenarioLink(hash)) {
+      fromAutosave();
+      setLoaded(true);
+      return;
+    }
+    // Drop the link from the address bar so a reload keeps later edits
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    decodeScenarioLink(hash).then((opened) => {
+      if (opened.ok) applyScenario(opened.scenario);
+      else {
+        fromAutosave();
+        setStatusMsg(`This link could not be opened: ${opened.error}`);
+      }
+      setLoaded(true);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-  // Workplaces: top-right (avoid roads)
-  placed = 0;
-  const workRowEnd = Math.floor(targetRows * 0.4);
-  const workColStart = Math.floor(targetCols * 0.6);
-  for (let r = 0; r < workRowEnd && placed < workCount; r++) {
-    for (let c = workColStart; c < targetCols && placed < workCount; c++) {
-      if (addIfFree("work", r, c, 1, 30)) placed++;
+  // Painting helpers
+  function toggleRoad(r: number, c: number, on?: boolean) {
+    const k = keyOf(r, c);
+    const current = roads.get(k);
+    if (on ?? !current) {
+      if (current === roadClass || buildingByCell.has(k)) return;
+      // Changing a road's class settles the difference with what it was bought for
+      const price = roadCostAt(roadClass, r, c);
+      const cost = price - (paid.get(roadPaidKey(k)) ?? 0);
+      if (cost > 0 && cost > available) {
+        setStatusMsg(`Not enough budget for this road. Cost $${cost.toLocaleString()} | Remaining $${available.toLocaleString()}`);
+        return;
+      }
+      record(`Road: ${ROAD_CLASSES[roadClass].label}`, cost);
+      setPaidFor(roadPaidKey(k), price);
+      setRoads((prev) => new Map(prev).set(k, roadClass));
+    } else if (current) {
+      const refund = paid.get(roadPaidKey(k)) ?? 0;
+      if (refund) record(`Refund road: ${ROAD_CLASSES[current].label}`, -refund);
+      setPaidFor(roadPaidKey(k), null);
+      setRoads((prev) => {
+        const next = new Map(prev);
+        next.delete(k);
+        return next;
+      });
     }
   }
-  // Fallback sweep
-  for (let r = 0; r < targetRows && placed < workCount; r++) {
-    for (let c = 0; c < targetCols && placed < workCount; c++) {
-      if (addIfFree("work", r, c, 1, 30)) placed++;
+
+  // A drawn line is priced as a whole and bought in one go, or not at all
+  function buildRoadLine(path: Cell[]) {
+    const next = new Map(roads);
+    const nextPaid = new Map(paid);
+    let cost = 0, changed = 0;
+    for (const { r, c } of path) {
+      const k = keyOf(r, c);
+      if (next.get(k) === roadClass || buildingByCell.has(k)) continue;
+      const price = roadCostAt(roadClass, r, c);
+      cost += price - (nextPaid.get(roadPaidKey(k)) ?? 0);
+      next.set(k, roadClass);
+      nextPaid.set(roadPaidKey(k), price);
+      changed++;
+    }
+    if (!changed) return;
+    if (cost > 0 && cost > available) {
+      setStatusMsg(`Not enough budget for this road. Cost $${cost.toLocaleString()} | Remaining $${available.toLocaleString()}`);
+      return;
     }
+    record(`Road: ${ROAD_CLASSES[roadClass].label}`, cost);
+    setPaid(nextPaid);
+    setRoads(next);
   }
 
-  // Food: random locations (avoid roads/occupied)
-  const all: string[] = [];
-  for (let r = 0; r < targetRows; r++) for (let c = 0; c < targetCols; c++) all.push(keyOf(r, c));
-  for (let i = all.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [all[i], all[j]] = [all[j], all[i]];
+  // Walkways and bike lanes are plain cell sets
+  function setLayerCell(setLayer: React.Dispatch<React.SetStateAction<Set<string>>>, r: number, c: number, on: boolean) {
+    setLayer((prev) => {
+      const next = new Set(prev);
+      const k = keyOf(r, c);
+      if (on) next.add(k);
+      else next.delete(k);
+      return next;
+    });
   }
-  placed = 0;
-  for (const k of all) {
-    if (placed >= foodCount) break;
-    if (rds.has(k) || occupied.has(k)) continue;
-    const [rr, cc] = k.split(",").map(Number);
-    if (addIfFree("food", rr, cc, 1, 50)) placed++;
+
+  // Road, walkway and bike lane tools share draw/line painting
+  const isPaintTool = tool === "road" || tool === "walkway" || tool === "bikeLane";
+  const paintCell = (r: number, c: number) => {
+    if (tool === "road") toggleRoad(r, c, true);
+    else if (tool === "walkway") setLayerCell(setWalkways, r, c, true);
+    else if (tool === "bikeLane") setLayerCell(setBikeLanes, r, c, true);
+  };
+
+  // Transit line editing
+  function newTransitLine() {
+    beginEdit();
+    const id = transitLines.reduce((m, l) => Math.max(m, l.id + 1), 0);
+    setTransitLines((prev) => [
+      ...prev,
+      { id, name: `Line ${id + 1}`, stops: [], speedKmh: 25, headwayMin: 10, emissionsKgPerPaxKm: 0.05 },
+    ]);
+    setActiveLineId(id);
+    setTool("transit");
   }
 
-  // Compute budget spent for seeded housing
-  let spent = 0;
-  for (const b of B) if (b.kind === "house") spent += houseCost(b.floors, b.baseCapacity);
-
-  // Commit state
-  setRows(targetRows);
-  setCols(targetCols);
-  
-  setPopulation(targetPopulation);
-  setBudgetTotal(targetBudget);
-  setCapExp(capacity_exp);
-  setFloors(houseFloors);
-  setHouseBaseCost(base_cost);
-  setBaseCapacity(houseBaseCap);
-  setBudgetSpent(spent); // <-- counts seeded housing
-  setRoads(rds);
-  setBuildings(B);
-  setStatusMsg("");
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-}, []);
+  function updateTransitLine(id: number, patch: Partial<TransitLine>) {
+    beginEdit(`line:${id}:${Object.keys(patch).join(",")}`);
+    setTransitLines((prev) => prev.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  }
 
+  function deleteTransitLine(id: number) {
+    beginEdit();
+    setTransitLines((prev) => prev.filter((l) => l.id !== id));
+    if (activeLineId === id) setActiveLineId(null);
+  }
 
-  // Painting helpers
-  function toggleRoad(r: number, c: number, on?: boolean) {
-    setRoads((prev) => {
-      const next = new Set(prev);
-      const k = keyOf(r, c);
-      if (on === undefined) {
-        if (next.has(k)) next.delete(k);
-        else next.add(k);
-      } else {
-        if (on) next.add(k);
-        else next.delete(k);
-      }
-      return next;
-    });
+  function addTransitStop(r: number, c: number) {
+    if (!roads.has(keyOf(r, c))) return setStatusMsg("Transit stops must be placed on road cells.");
+    if (activeLineId === null || !transitLines.some((l) => l.id === activeLineId)) {
+      return setStatusMsg("Add or select a transit line first.");
+    }
+    setTransitLines((prev) =>
+      prev.map((l) => {
+        if (l.id !== activeLineId) return l;
+        const last = l.stops[l.stops.length - 1];
+        if (last && last.r === r && last.c === c) return l;
+        return { ...l, stops: [...l.stops, { r, c }] };
+      })
+    );
   }
 
-  function placeBuilding(kind: BuildingKind, r: number, c: number, fl: number, cap: number) {
-    setBuildings((prev) => {
-      if (prev.some((b) => b.r === r && b.c === c)) return prev;
-
-      // Housing budget check
-      if (kind === "house") {
-        const cost = houseCost(fl, cap);
-        const available = budgetTotal + budgetRevenue - budgetSpent;
-        if (cost > available) {
-            setStatusMsg(
-            `Not enough budget for this house. Cost $${cost.toLocaleString()} | Remaining $${(available - cost).toLocaleString()}`
-            );
-            return prev;
-        }
-        setBudgetSpent((s) => s + cost);
-      }
+  // Places a w × h footprint with its top-left cell at (r, c)
+  function placeBuilding(kind: BuildingKind, r: number, c: number, w: number, h: number, fl: number, cap: number) {
+    const b: Building = { kind, r, c, w, h, floors: fl, baseCapacity: cap };
+    const cells = footprintCells(b);
+    if (cells.some((p) => roads.has(keyOf(p.r, p.c)))) {
+      setStatusMsg("Buildings cannot be placed on roads.");
+      return;
+    }
+    if (cells.some((p) => buildingByCell.has(keyOf(p.r, p.c)))) {
+      setStatusMsg("That footprint overlaps another building.");
+      return;
+    }
 
-      // If there is a road, remove it at this cell
-      setRoads((roadsPrev) => {
-        const filtered = new Set(roadsPrev);
-        filtered.delete(keyOf(r, c));
-        return filtered;
-      });
+    // Budget check
+    const cost = costOf(b);
+    if (cost > 0 && cost > available) {
+      setStatusMsg(
+        `Not enough budget for this ${BUILDING_KINDS[kind].label.toLowerCase()}. Cost $${cost.toLocaleString()} | Remaining $${(available - cost).toLocaleString()}`
+      );
+      return;
+    }
+    record(BUILDING_KINDS[kind].label, cost);
+    setPaidFor(buildingPaidKey(b), cost);
 
-      return [...prev, { kind, r, c, floors: fl, baseCapacity: cap }];
+    // Walkways and bike lanes under the footprint give way
+    cells.forEach((p) => {
+      setLayerCell(setWalkways, p.r, p.c, false);
+      setLayerCell(setBikeLanes, p.r, p.c, false);
     });
+
+    setBuildings((prev) => [...prev, b]);
   }
 
     function removeAt(r: number, c: number) {
-    setBuildings((prev) => {
-        const idx = prev.findIndex((b) => b.r === r && b.c === c);
-        if (idx === -1) return prev;
-        const b = prev[idx];
-        if (b.kind === "house") {
-        const refund = houseCost(b.floors, b.baseCapacity);
-        setBudgetSpent((s) => Math.max(0, s - refund));
-        }
-        const next = [...prev];
-        next.splice(idx, 1);
-        return next;
-    });
-    setRoads((prev) => {
-        const next = new Set(prev);
-        next.delete(keyOf(r, c));
-        return next;
-    });
+    const target = buildingByCell.get(keyOf(r, c));
+    if (target) {
+        const refund = paid.get(buildingPaidKey(target)) ?? 0;
+        if (refund) record(`Refund: ${BUILDING_KINDS[target.kind].label}`, -refund);
+        setPaidFor(buildingPaidKey(target), null);
+        setBuildings((prev) => prev.filter((b) => b !== target));
+    }
+    toggleRoad(r, c, false);
+    setLayerCell(setWalkways, r, c, false);
+    setLayerCell(setBikeLanes, r, c, false);
+    setTransitLines((prev) =>
+      prev.map((l) =>
+        l.stops.some((s) => s.r === r && s.c === c)
+          ? { ...l, stops: l.stops.filter((s) => s.r !== r || s.c !== c) }
+          : l
+      )
+    );
     }
 
   const [lineStart, setLineStart] = useState<Cell | null>(null);
+  // Building footprint being dragged out, corner to corner
+  const [footprintDrag, setFootprintDrag] = useState<{ start: Cell; end: Cell } | null>(null);
+  const rectBetween = (a: Cell, b: Cell) => ({
+    r: Math.min(a.r, b.r),
+    c: Math.min(a.c, b.c),
+    w: Math.abs(a.c - b.c) + 1,
+    h: Math.abs(a.r - b.r) + 1,
+  });
+  const dragRect = footprintDrag && rectBetween(footprintDrag.start, footprintDrag.end);
 
   const handleCellDown = (r: number, c: number) => {
+    // The isochrone overlay takes clicks as its origin instead of editing
+    if (overlay === "isochrone") return setIsoOrigin({ r, c });
+    if (tool !== "select") beginEdit();
     mouseDownRef.current = true;
     setStatusMsg("");
-    if (tool === "road") {
-      if (paintMode === "draw") toggleRoad(r, c, true);
+    if (isPaintTool) {
+      if (paintMode === "draw") paintCell(r, c);
       else setLineStart({ r, c });
+    } else if (tool === "transit") {
+      addTransitStop(r, c);
     } else if (tool === "erase") {
       removeAt(r, c);
+    } else if (tool === "select") {
+      const b = buildingByCell.get(keyOf(r, c));
+      setSelected(b ? { r: b.r, c: b.c } : null);
     } else {
-      placeBuilding(tool, r, c, floors, baseCapacity);
+      setFootprintDrag({ start: { r, c }, end: { r, c } });
     }
   };
 
   const handleCellEnter = (r: number, c: number) => {
     if (!mouseDownRef.current) return;
-    if (tool === "road" && paintMode === "draw") toggleRoad(r, c, true);
+    if (paintMode === "draw") paintCell(r, c);
     if (tool === "erase") removeAt(r, c);
+    if (footprintDrag) setFootprintDrag({ ...footprintDrag, end: { r, c } });
   };
 
   const handleMouseUp = (r?: number, c?: number) => {
-    if (tool === "road" && paintMode === "line" && lineStart && r !== undefined && c !== undefined) {
+    if (isPaintTool && paintMode === "line" && lineStart && r !== undefined && c !== undefined) {
       const path = manhattanPath(lineStart, { r, c });
-      path.forEach((p) => toggleRoad(p.r, p.c, true));
+      if (tool === "road") buildRoadLine(path);
+      else path.forEach((p) => paintCell(p.r, p.c));
       setLineStart(null);
     }
+    if (footprintDrag && r !== undefined && c !== undefined && !isPaintTool && tool !== "transit" && tool !== "erase" && tool !== "select") {
+      const rect = rectBetween(footprintDrag.start, { r, c });
+      placeBuilding(tool, rect.r, rect.c, rect.w, rect.h, floors, baseCapacity);
+    }
+    setFootprintDrag(null);
     mouseDownRef.current = false;
   };
 
-  const [metrics, setMetrics] = useState<Metrics | null>(null);
-
-  function distanceMeters(a: Cell, b: Cell): number | null {
-    if (distanceMode === "euclid") {
-      const dx = a.r - b.r, dy = a.c - b.c;
-      return Math.hypot(dx, dy) * cellSizeM;
-    }
-    if (distanceMode === "manhattan") {
-      return (Math.abs(a.r - b.r) + Math.abs(a.c - b.c)) * cellSizeM;
+  // Every footprint cell → its building
+  const buildingByCell = useMemo(() => {
+    const m = new Map<string, Building>();
+    buildings.forEach((b) => footprintCells(b).forEach((p) => m.set(keyOf(p.r, p.c), b)));
+    return m;
+  }, [buildings]);
+
+  // Building open in the inspector, by its top-left cell
+  const [selected, setSelected] = useState<Cell | null>(null);
+  const selectedBuilding = selected ? buildings.find((b) => b.r === selected.r && b.c === selected.c) ?? null : null;
+
+  // Inspector edits keep the footprint and settle the cost difference with the budget
+  function updateBuilding(target: Building, patch: Pick<Building, "floors" | "baseCapacity">) {
+    const price = costOf({ ...target, ...patch });
+    const diff = price - (paid.get(buildingPaidKey(target)) ?? 0);
+    if (diff > 0 && diff > available) {
+      setStatusMsg(`Not enough budget for this change. Cost $${diff.toLocaleString()} | Remaining $${available.toLocaleString()}`);
+      return;
     }
-    const L = shortestPathLenCells(rows, cols, roads, a, b);
-    return L === null ? null : L * cellSizeM;
+    setStatusMsg("");
+    beginEdit(`building:${target.r},${target.c}`);
+    record(`Edit ${BUILDING_KINDS[target.kind].label} (${target.r}, ${target.c})`, diff);
+    setPaidFor(buildingPaidKey(target), price);
+    setBuildings((prev) => prev.map((b) => (b === target ? { ...b, ...patch } : b)));
   }
 
-  function runSimulation() {
-    const houses = buildings.filter((b) => b.kind === "house");
-    const works = buildings.filter((b) => b.kind === "work");
-    const foods = buildings.filter((b) => b.kind === "food");
+  const [metrics, setMetrics] = useState<Metrics | null>(null);
+  // Last run's residents per house, for the building tooltip
+  const occupancyByKey = useMemo(() => {
+    const m = new Map<string, HouseOccupancy>();
+    metrics?.housing.forEach((h) => m.set(keyOf(h.r, h.c), h));
+    return m;
+  }, [metrics]);
 
-    if (!houses.length) return setStatusMsg("Place at least one house.");
-    if (!works.length) return setStatusMsg("Place at least one workplace.");
-    if (!foods.length) return setStatusMsg("Place at least one food place.");
+  const [progress, setProgress] = useState<SimProgress | null>(null);
+  const simWorkerRef = useRef<SimulationWorker | null>(null);
+  const runRef = useRef<SimulationHandle | null>(null);
 
-    // Capacity-aware housing
-    const totalCap = houses.reduce((s, h) => s + h.floors * h.baseCapacity, 0);
-    if (totalCap < population) {
-      setMetrics(null);
-      return setStatusMsg(
-        `Not enough housing capacity (${totalCap}) for population (${population}). Raise floors, base capacity, or add houses.`
-      );
-    }
+  // One long-lived worker keeps its road distance cache between runs
+  useEffect(() => {
+    const w = createSimulationWorker();
+    simWorkerRef.current = w;
+    return () => w.dispose();
+  }, []);
 
-    // Workforce & food provisioning constraints
-    const needWorkplaces = Math.ceil(population / Math.max(1, jobsPerWorkplace));
-    const needFood = Math.ceil(population / Math.max(1, mealsPerFoodPlace));
-    if (works.length < needWorkplaces) {
-      setMetrics(null);
-      return setStatusMsg(`Insufficient workplaces: have ${works.length}, need ${needWorkplaces}.`);
-    }
-    if (foods.length < needFood) {
+  const simConfig = useMemo(
+    (): SimConfig => ({
+      population,
+      walkMaxM,
+      carEmissionsKgPerKm,
+      walkEmissionsKgPerKm,
+      carSpeed,
+      walkSpeed,
+      bikeSpeed,
+      bikeLaneSpeedKmh,
+      bikeMaxM,
+      bikeEmissionsKgPerKm,
+      distanceMode,
+      roadSpeedsKmh,
+      transitMaxTimeRatio,
+      destinationModel,
+      destinationDecayPerKm,
+      capacityAssignment,
+      traffic,
+      timeOfDay,
+      housingModel,
+      activities,
+      modeChoice,
+      logit,
+      jobsPerWorkplace,
+      mealsPerFoodPlace,
+      boundaryPenaltyKgPerPerson,
+      seed,
+    }),
+    [
+      population, walkMaxM, carEmissionsKgPerKm, walkEmissionsKgPerKm, carSpeed, walkSpeed, bikeSpeed,
+      bikeLaneSpeedKmh, bikeMaxM, bikeEmissionsKgPerKm, distanceMode, roadSpeedsKmh, transitMaxTimeRatio,
+      destinationModel, destinationDecayPerKm, capacityAssignment, traffic, timeOfDay, housingModel,
+      activities, modeChoice, logit, jobsPerWorkplace, mealsPerFoodPlace, boundaryPenaltyKgPerPerson, seed
+    ]
+  );
+
+  async function runSimulation() {
+    const worker = simWorkerRef.current;
+    if (!worker) return;
+    setStatusMsg("");
+    setProgress({ peopleDone: 0, legsRouted: 0, total: population });
+    const run = worker.run(
+      { rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines, buildings },
+      simConfig,
+      setProgress
+    );
+    runRef.current = run;
+    const result = await run.result;
+    if (runRef.current !== run) return;
+    runRef.current = null;
+    setProgress(null);
+    if (!result) return setStatusMsg("Simulation cancelled.");
+    if (!result.ok) {
       setMetrics(null);
-      return setStatusMsg(`Insufficient food places: have ${foods.length}, need ${needFood}.`);
+      return setStatusMsg(result.error);
     }
-    const livingPeople = population;
-    const jobsCapacityInside = totalWorkplaces * Math.max(1, jobsPerWorkplace);
-    const travel_in  = Math.max(0, jobsCapacityInside - livingPeople);
-    const travel_out = Math.max(0, livingPeople - jobsCapacityInside);
-
-    // Create people
-    const people: Person[] = Array.from({ length: population }, (_, i) => ({ id: i }));
-
-    // Assign housing round-robin using expanded capacity
-    const expandedHouses: Building[] = houses.flatMap((h) => Array(h.floors * h.baseCapacity).fill(h));
-    let idx = 0;
-    people.forEach((p) => {
-      p.house = expandedHouses[idx++];
-    });
+    setMetrics(result.metrics);
+    setStatusMsg("");
+  }
 
-    // Assign random work & food (could switch to nearest if you want)
-    people.forEach((p) => {
-      p.work = works[Math.floor(Math.random() * works.length)];
-      p.food = foods[Math.floor(Math.random() * foods.length)];
-    });
+  function cancelSimulation() {
+    runRef.current?.cancel();
+  }
 
-    let totalWalk = 0, totalDrive = 0, totalTimeH = 0, totalEmissions = 0, drivers = 0, unreachable = 0;
-
-    for (const p of people) {
-      const legs: [Cell, Cell][] = [
-        [{ r: p.house!.r, c: p.house!.c }, { r: p.work!.r, c: p.work!.c }],
-        [{ r: p.work!.r, c: p.work!.c }, { r: p.food!.r, c: p.food!.c }],
-        [{ r: p.food!.r, c: p.food!.c }, { r: p.house!.r, c: p.house!.c }],
-      ];
-      let personDrove = false;
-      for (let i = 0; i < 3; i++) {
-        const [a, b] = legs[i];
-        const d = distanceMeters(a, b);
-        if (d === null || !isFinite(d)) {
-          unreachable++;
-          personDrove = true;
-          continue;
-        }
-        const willDrive = d > walkMaxM;
-        const speed = willDrive ? carSpeed : walkSpeed;
-        const ePerKm = willDrive ? carEmissionsKgPerKm : walkEmissionsKgPerKm;
-        totalTimeH += (d / 1000) / Math.max(speed, 1e-6);
-        totalEmissions += (d / 1000) * ePerKm;
-        if (willDrive) {
-          totalDrive += d; personDrove = true;
-        } else {
-          totalWalk += d;
-        }
+  // Scenario files
+  const scenario = useMemo(
+    () =>
+      toScenario(
+        { rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines, buildings },
+        simConfig,
+        { total: budgetTotal, ledger, costModel, house: { houseBaseCost, capExp, floorExp, hiRiseThreshold, hiRisePenalty } }
+      ),
+    [rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines, buildings, simConfig, budgetTotal, ledger, costModel,
+      houseBaseCost, capExp, floorExp, hiRiseThreshold, hiRisePenalty]
+  );
+  const scenarioJson = useMemo(() => serializeScenario(scenario), [scenario]);
+
+  // Autosave once edits settle; re-renders that leave the scenario as it was
+  // do not restart the wait
+  const lastSavedRef = useRef("");
+  useEffect(() => {
+    if (!loaded || scenarioJson === lastSavedRef.current) return;
+    const t = setTimeout(() => {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, scenarioJson);
+        lastSavedRef.current = scenarioJson;
+      } catch {
+        setStatusMsg("Autosave failed: browser storage is full or disabled.");
       }
-      if (personDrove) drivers++;
+    }, 1000);
+    return () => clearTimeout(t);
+  }, [loaded, scenarioJson]);
+
+  function applyScenario(s: Scenario) {
+    const w = scenarioWorld(s);
+    const cfg = s.config;
+    setRows(w.rows);
+    setCols(w.cols);
+    setCellSizeM(w.cellSizeM);
+    // Items in a loaded scenario count as bought at its own prices
+    const { paid: loadedPaid } = priceLayout(w, w.roads, w.buildings, s.budget.house, s.budget.costModel);
+    restore({ ...w, ledger: s.budget.ledger, paid: loadedPaid });
+    // Snapshots hold no grid size or settings, so they cannot step back across a scenario
+    setHistory(emptyHistory());
+    setActiveLineId(null);
+    setSelected(null);
+    setMetrics(null);
+    setPopulation(cfg.population);
+    setWalkMaxM(cfg.walkMaxM);
+    setCarEmissionsKgPerKm(cfg.carEmissionsKgPerKm);
+    setWalkEmissionsKgPerKm(cfg.walkEmissionsKgPerKm);
+    setCarSpeed(cfg.carSpeed);
+    setWalkSpeed(cfg.walkSpeed);
+    setBikeSpeed(cfg.bikeSpeed);
+    setBikeLaneSpeedKmh(cfg.bikeLaneSpeedKmh);
+    setBikeMaxM(cfg.bikeMaxM);
+    setBikeEmissionsKgPerKm(cfg.bikeEmissionsKgPerKm);
+    setDistanceMode(cfg.distanceMode);
+    setRoadSpeedsKmh(cfg.roadSpeedsKmh);
+    setTransitMaxTimeRatio(cfg.transitMaxTimeRatio);
+    setDestinationModel(cfg.destinationModel);
+    setDestinationDecayPerKm(cfg.destinationDecayPerKm);
+    setCapacityAssignment(cfg.capacityAssignment);
+    setTraffic(cfg.traffic);
+    setTimeOfDay(cfg.timeOfDay);
+    setHousingModel(cfg.housingModel);
+    setActivities(cfg.activities);
+    setModeChoice(cfg.modeChoice);
+    setLogit(cfg.logit);
+    setJobsPerWorkplace(cfg.jobsPerWorkplace);
+    setMealsPerFoodPlace(cfg.mealsPerFoodPlace);
+    setBoundaryPenaltyKgPerPerson(cfg.boundaryPenaltyKgPerPerson);
+    setSeed(cfg.seed);
+    setBudgetTotal(s.budget.total);
+    setCostModel(s.budget.costModel);
+    setHouseBaseCost(s.budget.house.houseBaseCost);
+    setCapExp(s.budget.house.capExp);
+    setFloorExp(s.budget.house.floorExp);
+    setHiRiseThreshold(s.budget.house.hiRiseThreshold);
+    setHiRisePenalty(s.budget.house.hiRisePenalty);
+  }
+
+  function saveScenarioFile() {
+    const url = URL.createObjectURL(new Blob([scenarioJson], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `scenario-${rows}x${cols}-seed${seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  async function copyScenarioLink() {
+    const { origin, pathname, search } = window.location;
+    const url = origin + pathname + search + (await encodeScenarioLink(scenario));
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      return setStatusMsg("Could not copy the link: clipboard access was denied.");
     }
-    const boundaryPenalty = (travel_in + travel_out) * Math.max(0, boundaryPenaltyKgPerPerson);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  }
 
-    setMetrics({
-      population,
-      avg_walk_m_per_day: totalWalk / Math.max(population, 1),
-      avg_drive_m_per_day: totalDrive / Math.max(population, 1),
-      avg_travel_time_min_per_day: (totalTimeH / Math.max(population, 1)) * 60,
-      total_emissions_kg_per_day: totalEmissions + boundaryPenalty,
-      drivers_count: drivers,
-      unreachable_legs: unreachable,
-      travel_in,
-      travel_out,
-    });
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  async function openScenarioFile(file: File) {
+    const parsed = parseScenario(await file.text());
+    if (!parsed.ok) return setStatusMsg(`Could not open ${file.name}: ${parsed.error}`);
+    applyScenario(parsed.scenario);
     setStatusMsg("");
   }
 
   // Preset / demo setup
   const seedDemo = () => {
+    beginEdit();
     setBuildings([]);
-    setRoads(new Set());
+    setRoads(new Map());
+    setWalkways(new Set());
+    setBikeLanes(new Set());
+    setTransitLines([]);
+    setActiveLineId(null);
     setPopulation(250);
     setWalkMaxM(800);
     setCarSpeed(35);
     setWalkSpeed(4.8);
+    setBikeSpeed(15);
+    setBikeLaneSpeedKmh(20);
+    setBikeMaxM(2000);
+    setBikeEmissionsKgPerKm(0);
+    setRoadSpeedsKmh(defaultRoadSpeeds());
+    setLogit(defaultLogitConfig());
     setCarEmissionsKgPerKm(0.2);
     setWalkEmissionsKgPerKm(0);
-    setBudgetTotal(5_000_000);
-    setBudgetSpent(0);
 
     // grid roads every 3
-    const rds = new Set<string>();
-    for (let r = 0; r < rows; r++) if (r % 3 === 0) for (let c = 0; c < cols; c++) rds.add(keyOf(r, c));
-    for (let c = 0; c < cols; c++) if (c % 3 === 0) for (let r = 0; r < rows; r++) rds.add(keyOf(r, c));
+    const rds: RoadNetwork = new Map();
+    for (let r = 0; r < rows; r++) if (r % 3 === 0) for (let c = 0; c < cols; c++) rds.set(keyOf(r, c), "local");
+    for (let c = 0; c < cols; c++) if (c % 3 === 0) for (let r = 0; r < rows; r++) rds.set(keyOf(r, c), "local");
     setRoads(rds);
 
     const B: Building[] = [];
     const add = (kind: BuildingKind, r: number, c: number, fl: number, cap: number) =>
-      B.push({ kind, r, c, floors: fl, baseCapacity: cap });
+      B.push({ kind, r, c, w: 1, h: 1, floors: fl, baseCapacity: cap });
 
     // houses
     [[2, 2],[2, 8],[2, 14],[8, 2],[8, 8],[8, 14]].forEach((xy, i) => add("house", xy[0], xy[1], 2 + (i % 3), 12));
@@ -505,19 +889,160 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
     // food
     [[11, 5],[5, 11],[17, 11]].forEach((xy) => add("food", xy[0], xy[1], 1, 50));
 
+    // The demo is bought like anything else, with five million left to build with
+    const { paid: demoPaid, spent } = priceLayout({ rows, cols }, rds, B, houseParams, costModel);
+    setBudgetTotal(Math.ceil(spent) + 5_000_000);
+    setLedger(addToLedger([], "Demo city", spent));
+    setPaid(demoPaid);
+
     setBuildings(B);
   };
 
+  const [overlay, setOverlay] = useState<Overlay>("off");
+  const [accessMode, setAccessMode] = useState<TravelMode>("walk");
+  const [isoOrigin, setIsoOrigin] = useState<Cell | null>(null);
+  const [isoBandMin, setIsoBandMin] = useState(5);
+  const [jobMinutes, setJobMinutes] = useState(15);
+  const [showAgents, setShowAgents] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [playHour, setPlayHour] = useState(6);
+  const [playSpeed, setPlaySpeed] = useState(15);
+  // Routes on the current layout, only while an accessibility overlay is shown
+  const accessNetwork = useMemo(() => {
+    if (overlay !== "isochrone" && overlay !== "jobs") return null;
+    const world = { rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines: [], buildings: [] };
+    return createRoadNetworks(world, { walkSpeed, bikeSpeed, bikeLaneSpeedKmh, roadSpeedsKmh })[accessMode];
+  }, [overlay, accessMode, rows, cols, cellSizeM, roads, walkways, bikeLanes, walkSpeed, bikeSpeed, bikeLaneSpeedKmh, roadSpeedsKmh]);
+  const isoMinutes = useMemo(
+    () => (overlay === "isochrone" && accessNetwork && isoOrigin ? travelMinutesFrom({ rows, cols }, accessNetwork, isoOrigin) : null),
+    [overlay, accessNetwork, isoOrigin, rows, cols]
+  );
+  const jobAccess = useMemo(
+    () =>
+      overlay === "jobs" && accessNetwork
+        ? jobsWithin({ rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines, buildings }, accessNetwork, jobMinutes, { jobsPerWorkplace, mealsPerFoodPlace })
+        : null,
+    [overlay, accessNetwork, jobMinutes, rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines, buildings, jobsPerWorkplace, mealsPerFoodPlace]
+  );
+
+  const overlayValues = useMemo(() => {
+    const values = new Map<string, number>();
+    if (overlay === "isochrone") {
+      // Band 1 is within one band of minutes, band 2 within two, ...
+      isoMinutes?.forEach((m, i) => {
+        if (m <= ISO_BANDS * isoBandMin) values.set(keyOf(Math.floor(i / cols), i % cols), Math.max(1, Math.ceil(m / isoBandMin)));
+      });
+      return values;
+    }
+    if (overlay === "jobs") {
+      jobAccess?.houses.forEach((h) => {
+        const b = buildingByCell.get(keyOf(h.r, h.c));
+        if (b) for (const cell of footprintCells(b)) values.set(keyOf(cell.r, cell.c), h.jobs);
+      });
+      return values;
+    }
+    if (!metrics || overlay === "off") return values;
+    if (overlay === "vc") {
+      for (const l of metrics.road_loads) values.set(keyOf(l.r, l.c), l.vc_ratio);
+      return values;
+    }
+    for (const t of metrics.cell_trips) {
+      const n = overlay === "total" ? TRIP_MODES.reduce((s, m) => s + t.legs[m], 0) : t.legs[overlay];
+      if (n > 0) values.set(keyOf(t.r, t.c), n);
+    }
+    return values;
+  }, [metrics, overlay, isoMinutes, isoBandMin, jobAccess, buildingByCell, cols]);
+  const overlayMax =
+    overlay === "vc" ? VC_SCALE_MAX
+    : overlay === "isochrone" ? ISO_BANDS
+    : overlay === "jobs" ? Math.max(jobAccess?.totalJobs ?? 0, 1)
+    : [...overlayValues.values()].reduce((m, v) => Math.max(m, v), 1);
+
+  // Advance the playback clock while playing, wrapping at midnight
+  const hasTracks = !!metrics?.agent_tracks.length;
+  useEffect(() => {
+    if (!playing || !hasTracks) return;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const dt = (now - last) / 1000;
+      last = now;
+      setPlayHour((h) => (h + (dt * playSpeed) / 60) % 24);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, playSpeed, hasTracks]);
+
+  const agentPositions = useMemo(
+    () => (showAgents && metrics ? agentPositionsAt(metrics.agent_tracks, playHour) : []),
+    [showAgents, metrics, playHour]
+  );
+
+  // Road cells loaded past half their capacity, worst first
+  const hotspots = useMemo(
+    () => (metrics?.road_loads ?? []).filter((l) => l.vc_ratio >= 0.5).slice(0, 8),
+    [metrics]
+  );
+
   const chartData = useMemo(() => {
     if (!metrics) return [] as any[];
     return [
       { metric: "Avg walk (m)", value: metrics.avg_walk_m_per_day },
+      { metric: "Avg bike (m)", value: metrics.avg_bike_m_per_day },
       { metric: "Avg drive (m)", value: metrics.avg_drive_m_per_day },
+      { metric: "Avg transit (m)", value: metrics.avg_transit_m_per_day },
       { metric: "Avg time (min)", value: metrics.avg_travel_time_min_per_day },
       { metric: "Total CO₂ (kg)", value: metrics.total_emissions_kg_per_day },
     ];
   }, [metrics]);
 
+  const modeSplitData = useMemo(() => {
+    if (!metrics) return [];
+    return TRIP_MODES.map((mode) => ({
+      mode,
+      legs: metrics.legs_by_mode[mode],
+    }));
+  }, [metrics]);
+
+  // Legs by mode, CO₂ and travel time through the day, one row per slice
+  const dayProfileData = useMemo(() => {
+    if (!metrics) return [];
+    return metrics.time_slices.map((sl) => ({
+      time: formatHour(sl.start_hour),
+      ...sl.legs_by_mode,
+      co2: +sl.emissions_kg.toFixed(1),
+      minutes: +sl.avg_travel_time_min.toFixed(1),
+    }));
+  }, [metrics]);
+
+  // The busiest slice against the average of every other slice with trips
+  const peakOffPeak = useMemo(() => {
+    const slices = (metrics?.time_slices ?? []).filter((sl) => sl.trips > 0);
+    if (slices.length < 2) return null;
+    const peak = slices.reduce((a, b) => (b.trips > a.trips ? b : a));
+    const rest = slices.filter((sl) => sl !== peak);
+    const legsOf = (sl: TimeSlice) => TRIP_MODES.reduce((t, m) => t + sl.legs_by_mode[m], 0);
+    const summarize = (group: TimeSlice[]) => {
+      const sum = (f: (sl: TimeSlice) => number) => group.reduce((s, sl) => s + f(sl), 0);
+      const legs = Math.max(sum(legsOf), 1);
+      return {
+        trips: sum((sl) => sl.trips) / group.length,
+        driveShare: sum((sl) => sl.legs_by_mode.drive) / legs,
+        minutes: sum((sl) => sl.avg_travel_time_min * legsOf(sl)) / legs,
+        co2PerLeg: sum((sl) => sl.emissions_kg) / legs,
+      };
+    };
+    return { start: peak.start_hour, peak: summarize([peak]), offPeak: summarize(rest) };
+  }, [metrics]);
+
+  // Expected mode share (%) as car costs scale, one row per factor
+  const shareCurveData = useMemo(() => {
+    if (!metrics) return [];
+    return metrics.mode_share_by_car_cost.map(({ factor, share }) => ({
+      factor: `×${factor}`,
+      ...Object.fromEntries(TRIP_MODES.map((m) => [m, +(share[m] * 100).toFixed(1)])),
+    }));
+  }, [metrics]);
+
   return (
     <div className="w-full min-h-screen p-4 md:p-6 lg:p-8 bg-background text-foreground">
       <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-4">
@@ -534,30 +1059,36 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 <div>
                   <Label className="text-foreground">Rows</Label>
                   <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
-                    type="number" value={rows} min={6} max={40}
-                    onChange={(e) => setRows(clamp(parseInt(e.target.value || "0"), 6, 40))}
+                    type="number" value={rows} min={MIN_GRID_SIZE} max={MAX_GRID_SIZE}
+                    onChange={(e) => setRows(clamp(parseInt(e.target.value || "0"), MIN_GRID_SIZE, MAX_GRID_SIZE))}
                   />
                 </div>
                 <div>
                   <Label className="text-foreground">Cols</Label>
                   <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
-                    type="number" value={cols} min={6} max={40}
-                    onChange={(e) => setCols(clamp(parseInt(e.target.value || "0"), 6, 40))}
+                    type="number" value={cols} min={MIN_GRID_SIZE} max={MAX_GRID_SIZE}
+                    onChange={(e) => setCols(clamp(parseInt(e.target.value || "0"), MIN_GRID_SIZE, MAX_GRID_SIZE))}
                   />
                 </div>
                 <div>
                   <Label className="text-foreground">Cell (m)</Label>
                   <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
-                    type="number" value={cellSizeM} min={10} max={200}
-                    onChange={(e) => setCellSizeM(clamp(parseInt(e.target.value || "0"), 10, 200))}
+                    type="number" value={cellSizeM} min={MIN_CELL_SIZE_M} max={MAX_CELL_SIZE_M}
+                    onChange={(e) => setCellSizeM(clamp(parseInt(e.target.value || "0"), MIN_CELL_SIZE_M, MAX_CELL_SIZE_M))}
                   />
                 </div>
               </div>
 
-              <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
                 <div className="flex items-center gap-2">
                   <Button variant={tool === "road" ? "default" : "secondary"} onClick={() => setTool("road")}><Route className="w-4 h-4 mr-1" />Road</Button>
+                  <Button variant={tool === "walkway" ? "default" : "secondary"} onClick={() => setTool("walkway")} title="Walk-only cells: sidewalks, plazas, parks"><Footprints className="w-4 h-4 mr-1" />Walkway</Button>
+                  <Button variant={tool === "bikeLane" ? "default" : "secondary"} onClick={() => setTool("bikeLane")} title="Bike lanes: faster, more attractive cycling"><Bike className="w-4 h-4 mr-1" />Bike lane</Button>
+                  <Button variant={tool === "transit" ? "default" : "secondary"} onClick={() => setTool("transit")} title="Click road cells to add stops to the selected line"><Bus className="w-4 h-4 mr-1" />Transit</Button>
+                  <Button variant={tool === "select" ? "default" : "secondary"} onClick={() => setTool("select")} title="Click a building to inspect and edit it"><MousePointer className="w-4 h-4 mr-1" />Select</Button>
                   <Button variant={tool === "erase" ? "default" : "secondary"} onClick={() => setTool("erase")}><Trash2 className="w-4 h-4 mr-1" />Erase</Button>
+                  <Button variant="secondary" size="icon" title="Undo (Ctrl+Z)" disabled={!history.past.length} onClick={undoEdit}><Undo2 className="w-4 h-4" /></Button>
+                  <Button variant="secondary" size="icon" title="Redo (Ctrl+Shift+Z)" disabled={!history.future.length} onClick={redoEdit}><Redo2 className="w-4 h-4" /></Button>
                 </div>
                 <div className="flex items-center gap-2">
                   <Select value={paintMode} onValueChange={(v: any) => setPaintMode(v)}>
@@ -569,22 +1100,57 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                   </Select>
                   <Button variant="secondary" onClick={() => {
                     const every = 3;
-                    setRoads((prev) => {
-                      const next = new Set(prev);
-                      for (let r = 0; r < rows; r++) if (r % every === 0) for (let c = 0; c < cols; c++) next.add(keyOf(r, c));
-                      for (let c = 0; c < cols; c++) if (c % every === 0) for (let r = 0; r < rows; r++) next.add(keyOf(r, c));
-                      return next;
-                    });
+                    const next = new Map(roads);
+                    const nextPaid = new Map(paid);
+                    let cost = 0;
+                    const add = (r: number, c: number) => {
+                      const k = keyOf(r, c);
+                      if (next.has(k) || buildingByCell.has(k)) return;
+                      const price = roadCostAt(roadClass, r, c);
+                      next.set(k, roadClass);
+                      nextPaid.set(roadPaidKey(k), price);
+                      cost += price;
+                    };
+                    for (let r = 0; r < rows; r++) if (r % every === 0) for (let c = 0; c < cols; c++) add(r, c);
+                    for (let c = 0; c < cols; c++) if (c % every === 0) for (let r = 0; r < rows; r++) add(r, c);
+                    if (cost > available) {
+                      setStatusMsg(`Not enough budget for the grid. Cost $${cost.toLocaleString()} | Remaining $${available.toLocaleString()}`);
+                      return;
+                    }
+                    beginEdit();
+                    if (cost > 0) record("Auto grid", cost);
+                    setPaid(nextPaid);
+                    setRoads(next);
                   }}>
                     <GridIcon className="w-4 h-4 mr-1" />Auto Grid
                   </Button>
                 </div>
               </div>
 
+              <div className="flex items-center gap-2">
+                <Label className="text-foreground whitespace-nowrap">Road class</Label>
+                <Select value={roadClass} onValueChange={(v) => { setRoadClass(v as RoadClass); setTool("road"); }}>
+                  <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {ROAD_CLASS_ORDER.map((cls) => (
+                      <SelectItem key={cls} value={cls}>
+                        <span className={`inline-block w-3 h-3 rounded-sm border border-border ${roadFill[cls]}`} />
+                        {ROAD_CLASSES[cls].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="grid grid-cols-3 gap-2">
-                <Button variant={tool === "house" ? "default" : "secondary"} onClick={() => setTool("house")}><Home className="w-4 h-4 mr-1" />House</Button>
-                <Button variant={tool === "work" ? "default" : "secondary"} onClick={() => setTool("work")}><Factory className="w-4 h-4 mr-1" />Work</Button>
-                <Button variant={tool === "food" ? "default" : "secondary"} onClick={() => setTool("food")}><Sandwich className="w-4 h-4 mr-1" />Food</Button>
+                {BUILDING_KIND_ORDER.map((kind) => {
+                  const Icon = buildingIcons[kind];
+                  return (
+                    <Button key={kind} variant={tool === kind ? "default" : "secondary"} onClick={() => setTool(kind)}>
+                      <Icon className="w-4 h-4 mr-1" />{BUILDING_KINDS[kind].label}
+                    </Button>
+                  );
+                })}
               </div>
 
               <div className="grid grid-cols-2 gap-2">
@@ -604,9 +1170,23 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 </div>
               </div>
 
-              <div className="flex items-center justify-between pt-1">
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                <Button variant="secondary" onClick={saveScenarioFile} title="Download the scenario as JSON"><Download className="w-4 h-4 mr-1" />Save</Button>
+                <Button variant="secondary" onClick={() => fileInputRef.current?.click()} title="Open a scenario JSON file"><FolderOpen className="w-4 h-4 mr-1" />Open</Button>
+                <Button variant="secondary" onClick={copyScenarioLink} title="Copy a link that opens this exact scenario">
+                  {linkCopied ? <Check className="w-4 h-4 mr-1" /> : <Link2 className="w-4 h-4 mr-1" />}{linkCopied ? "Copied" : "Copy link"}
+                </Button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) openScenarioFile(file);
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between">
                 <Button variant="secondary" onClick={seedDemo}><Wand2 className="w-4 h-4 mr-1" />Load Demo</Button>
-                <Button variant="secondary" onClick={() => { setBuildings([]); setRoads(new Set()); setMetrics(null); setBudgetSpent(0); }}>
+                <Button variant="secondary" onClick={() => { beginEdit(); setBuildings([]); setRoads(new Map()); setWalkways(new Set()); setBikeLanes(new Set()); setTransitLines([]); setActiveLineId(null); setMetrics(null); setLedger([]); setPaid(new Map()); }}>
                   <Trash2 className="w-4 h-4 mr-1" />Clear All
                 </Button>
               </div>
@@ -622,8 +1202,8 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 <div>
                   <Label className="text-foreground">Population</Label>
                   <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
-                    type="number" value={population} min={0} max={10000}
-                    onChange={(e) => setPopulation(clamp(parseInt(e.target.value || "0"), 0, 10000))}
+                    type="number" value={population} min={0} max={MAX_POPULATION}
+                    onChange={(e) => setPopulation(clamp(parseInt(e.target.value || "0"), 0, MAX_POPULATION))}
                   />
                   <p className="text-muted-foreground text-xs mt-1">Housing cap: {totalHousingCapacity}</p>
                 </div>
@@ -643,6 +1223,7 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                     type="number" value={carSpeed} min={1} max={200}
                     onChange={(e) => setCarSpeed(clamp(parseInt(e.target.value || "0"), 1, 200))}
                   />
+                  <p className="text-muted-foreground text-xs mt-1">Euclidean / Manhattan modes</p>
                 </div>
                 <div>
                   <Label className="text-foreground">Walk speed (km/h)</Label>
@@ -653,6 +1234,21 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 </div>
               </div>
 
+              <div className="grid grid-cols-3 gap-2">
+                {ROAD_CLASS_ORDER.filter((cls) => ROAD_CLASSES[cls].drive).map((cls) => (
+                  <div key={cls}>
+                    <Label className="text-foreground">{ROAD_CLASSES[cls].label} (km/h)</Label>
+                    <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                      type="number" value={roadSpeedsKmh[cls]} min={1} max={200}
+                      onChange={(e) => {
+                        const v = clamp(parseInt(e.target.value || "0"), 1, 200);
+                        setRoadSpeedsKmh((prev) => ({ ...prev, [cls]: v }));
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+
               <div className="grid grid-cols-2 gap-2">
                 <div>
                   <Label className="text-foreground">Car CO₂ (kg/km)</Label>
@@ -670,18 +1266,104 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-foreground">Bike speed (km/h)</Label>
+                  <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                    type="number" value={bikeSpeed} min={1} max={60}
+                    onChange={(e) => setBikeSpeed(clamp(parseInt(e.target.value || "0"), 1, 60))}
+                  />
+                </div>
+                <div>
+                  <Label className="text-foreground">Bike lane speed (km/h)</Label>
+                  <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                    type="number" value={bikeLaneSpeedKmh} min={1} max={60}
+                    onChange={(e) => setBikeLaneSpeedKmh(clamp(parseInt(e.target.value || "0"), 1, 60))}
+                  />
+                </div>
+                <div>
+                  <Label className="text-foreground">Bike max (m)</Label>
+                  <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                    type="number" value={bikeMaxM} min={0} max={100000}
+                    onChange={(e) => setBikeMaxM(clamp(parseInt(e.target.value || "0"), 0, 100000))}
+                  />
+                  <p className="text-muted-foreground text-xs mt-1">0 disables cycling; bike lanes extend the range</p>
+                </div>
+                <div>
+                  <Label className="text-foreground">Bike CO₂ (kg/km)</Label>
+                  <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                    type="number" step="0.01" value={bikeEmissionsKgPerKm}
+                    onChange={(e) => setBikeEmissionsKgPerKm(parseFloat(e.target.value || "0"))}
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-2">
                 <div>
                   <Label className="text-foreground">Distance mode</Label>
                   <Select value={distanceMode} onValueChange={(v: any) => setDistanceMode(v)}>
                     <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="road">Road (BFS)</SelectItem>
+                      <SelectItem value="road">Road (fastest route)</SelectItem>
                       <SelectItem value="euclid">Euclidean</SelectItem>
                       <SelectItem value="manhattan">Manhattan</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label className="text-foreground">Destinations</Label>
+                  <Select value={destinationModel} onValueChange={(v) => setDestinationModel(v as DestinationModel)}>
+                    <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="gravity">Gravity (distance decay)</SelectItem>
+                      <SelectItem value="nearest">Nearest</SelectItem>
+                      <SelectItem value="random">Uniform random</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-foreground">Decay (per km)</Label>
+                  <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                    type="number" step="0.1" value={destinationDecayPerKm} min={0}
+                    disabled={destinationModel !== "gravity"}
+                    onChange={(e) => setDestinationDecayPerKm(Math.max(0, parseFloat(e.target.value || "0")))}
+                  />
+                  <p className="text-muted-foreground text-xs mt-1">Weight ∝ capacity × e^(−decay × km)</p>
+                </div>
+                <div>
+                  <Label className="text-foreground">Housing allocation</Label>
+                  <Select value={housingModel} onValueChange={(v) => setHousingModel(v as HousingModel)}>
+                    <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="proportional">Proportional fill</SelectItem>
+                      <SelectItem value="accessibility">By job accessibility</SelectItem>
+                      <SelectItem value="random">Random (seeded)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-foreground">Job / seat capacity</Label>
+                  <Select value={capacityAssignment} onValueChange={(v) => setCapacityAssignment(v as CapacityMode)}>
+                    <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="greedy">Greedy (preferred with room)</SelectItem>
+                      <SelectItem value="transport">Min-cost transport</SelectItem>
+                      <SelectItem value="none">Ignore capacity</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-foreground">Random seed</Label>
+                  <div className="flex gap-1">
+                    <Input className="bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring"
+                      type="number" value={seed} min={0} max={MAX_SEED}
+                      onChange={(e) => setSeed(clamp(parseInt(e.target.value || "0"), 0, MAX_SEED))}
+                    />
+                    <Button variant="secondary" size="icon" title="New random seed" onClick={() => setSeed(randomSeed())}>
+                      <Dices className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
               </div>
               <div className="grid grid-cols-2 gap-2">
                 <div>
@@ -705,7 +1387,7 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                     onChange={(e) => setJobsPerWorkplace(Math.max(1, parseInt(e.target.value || "1")))}
                   />
                   <p className="text-muted-foreground text-xs mt-1">
-                    Have {totalWorkplaces}, need {Math.ceil(population / Math.max(1, jobsPerWorkplace))}
+                    {totalJobs} jobs for {population} residents
                   </p>
                 </div>
                 <div>
@@ -715,19 +1397,44 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                     onChange={(e) => setMealsPerFoodPlace(Math.max(1, parseInt(e.target.value || "1")))}
                   />
                   <p className="text-muted-foreground text-xs mt-1">
-                    Have {totalFoodPlaces}, need {Math.ceil(population / Math.max(1, mealsPerFoodPlace))}
+                    {totalSeats} seats for {population} residents
                   </p>
                 </div>
               </div>
 
               <div className="pt-2 text-right">
-                <Button onClick={runSimulation}><Play className="w-4 h-4 mr-1" />Run Simulation</Button>
+                {progress ? (
+                  <Button variant="secondary" onClick={cancelSimulation}><X className="w-4 h-4 mr-1" />Cancel</Button>
+                ) : (
+                  <Button onClick={runSimulation}><Play className="w-4 h-4 mr-1" />Run Simulation</Button>
+                )}
               </div>
 
               {statusMsg && <p className="text-sm text-red-400">{statusMsg}</p>}
             </CardContent>
           </Card>
 
+          <ModeChoiceCard model={modeChoice} onModelChange={setModeChoice} logit={logit} onLogitChange={setLogit} />
+
+          <ActivitiesCard config={activities} onChange={setActivities} />
+
+          <TrafficCard config={traffic} onChange={setTraffic} />
+
+          <TimeOfDayCard config={timeOfDay} onChange={setTimeOfDay} />
+
+          <CostModelCard model={costModel} onChange={setCostModel} />
+
+          <TransitLinesCard
+            lines={transitLines}
+            activeLineId={activeLineId}
+            maxTimeRatio={transitMaxTimeRatio}
+            onMaxTimeRatioChange={setTransitMaxTimeRatio}
+            onNewLine={newTransitLine}
+            onSelectLine={(id) => { setActiveLineId(id); setTool("transit"); }}
+            onUpdateLine={updateTransitLine}
+            onDeleteLine={deleteTransitLine}
+          />
+
           <Card className="bg-card border-border text-card-foreground">
             <CardHeader>
               <CardTitle>Budget & Constraints</CardTitle>
@@ -742,12 +1449,27 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                   />
                 </div>
                 <div className="pt-6 text-muted-foreground text-sm">Spent: ${budgetSpent.toLocaleString()}</div>
-                <div className="pt-6 text-muted-foreground text-sm">Remain: ${(budgetTotal + budgetRevenue - budgetSpent).toLocaleString()}</div>
+                <div className="pt-6 text-muted-foreground text-sm">Remain: ${available.toLocaleString()}</div>
               </div>
               <div className="col-span-3 text-neutral-400 text-xs">
-                    Revenue from workplaces: ${budgetRevenue.toLocaleString()} (adds to budget)
+                    Yearly: tax on {operations.jobs.toLocaleString()} jobs ${operations.tax.toLocaleString()} − upkeep ${operations.maintenance.toLocaleString()} = ${operations.net.toLocaleString()} (adds to budget)
                 </div>
 
+              <div className="max-h-40 overflow-y-auto rounded-md border border-border text-xs">
+                {ledger.length ? (
+                  ledger.map((e) => (
+                    <div key={e.id} className="flex justify-between px-2 py-1 odd:bg-muted">
+                      <span>{e.label}{e.count > 1 ? ` ×${e.count}` : ""}</span>
+                      <span className={e.amount < 0 ? "text-emerald-600" : ""}>
+                        {e.amount < 0 ? "−" : ""}${Math.abs(e.amount).toLocaleString()}
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="px-2 py-1 text-muted-foreground">Nothing built yet.</p>
+                )}
+              </div>
+
 
               <div className="grid grid-cols-2 gap-2">
                 <div>
@@ -786,7 +1508,7 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                   />
                 </div>
                 <div className="pt-6 text-right">
-                  <Button variant="secondary" onClick={() => setBudgetSpent(0)}>Reset Spent</Button>
+                  <Button variant="secondary" onClick={() => { beginEdit(); setLedger([]); setPaid(new Map()); }}>Clear Ledger</Button>
                 </div>
               </div>
 
@@ -801,7 +1523,17 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
         <div className="lg:col-span-2 space-y-4">
           <Card className="bg-card border-border text-card-foreground">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2"><GridIcon className="w-5 h-5" />Grid World</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                <GridIcon className="w-5 h-5" />Grid World
+                <Select value={overlay} onValueChange={(v) => setOverlay(v as Overlay)}>
+                  <SelectTrigger className="ml-auto w-48 h-8 bg-input border-border text-foreground text-sm font-normal"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(overlayLabels) as Overlay[]).map((o) => (
+                      <SelectItem key={o} value={o}>{overlayLabels[o]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div
@@ -823,8 +1555,10 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                     <div key={r} className="flex" style={{ position: "absolute", top: r * cellPx }}>
                       {[...Array(cols)].map((_, c) => {
                         const k = keyOf(r, c);
-                        const isRoad = roads.has(k);
-                        const b = buildings.find((bb) => bb.r === r && bb.c === c);
+                        const road = roads.get(k);
+                        const b = buildingByCell.get(k);
+                        const occ = b ? occupancyByKey.get(keyOf(b.r, b.c)) : undefined;
+                        const heat = overlayValues.get(k);
                         return (
                           <div
                             key={c}
@@ -835,37 +1569,224 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                             style={{ width: cellPx, height: cellPx, cursor: "crosshair" }}
                           >
                             {/* road fill */}
-                            {isRoad && <div className="absolute inset-0 bg-muted" />}
+                            {road && <div className={`absolute inset-0 ${roadFill[road]}`} title={ROAD_CLASSES[road].label} />}
+                            {/* walkway overlay */}
+                            {walkways.has(k) && <div className="absolute inset-[2px] rounded-sm border-2 border-dashed border-lime-500" title="Walkway" />}
+                            {/* bike lane stripe */}
+                            {bikeLanes.has(k) && <div className="absolute left-[3px] right-[3px] top-1/2 h-[3px] -translate-y-1/2 rounded-full bg-sky-500" title="Bike lane" />}
+                            {/* usage / congestion overlay */}
+                            {heat !== undefined && (
+                              <div className="absolute inset-0"
+                                style={{ background: heatColor(Math.min(heat / overlayMax, 1)) }}
+                                title={
+                                  overlay === "vc" ? `Volume ÷ capacity: ${(heat * 100).toFixed(0)}%`
+                                  : overlay === "isochrone" ? `${isoMinutes![r * cols + c].toFixed(1)} min ${accessModeLabels[accessMode].toLowerCase()}`
+                                  : overlay === "jobs" ? `${heat} jobs within ${jobMinutes} min ${accessModeLabels[accessMode].toLowerCase()}`
+                                  : `${overlayLabels[overlay]}: ${Math.round(heat)}`
+                                }
+                              />
+                            )}
                             {/* building */}
                             {b && (
                               <div
-                                className={`absolute inset-[3px] rounded-md flex items-center justify-center text-[10px] font-medium ${
-                                  b.kind === "house" ? "bg-emerald-600" : b.kind === "work" ? "bg-blue-600" : "bg-amber-600"
+                                className={`absolute flex items-center justify-center text-[10px] font-medium text-white ${
+                                  footprintArea(b) === 1 ? "rounded-md" : ""
+                                }`}
+                                style={{
+                                  background: BUILDING_KINDS[b.kind].color,
+                                  // inset only on the footprint's outer edges so it reads as one block
+                                  top: r === b.r ? 3 : 0,
+                                  bottom: r === b.r + b.h - 1 ? 3 : 0,
+                                  left: c === b.c ? 3 : 0,
+                                  right: c === b.c + b.w - 1 ? 3 : 0,
+                                }}
+                                title={`${BUILDING_KINDS[b.kind].label} | ${b.w}×${b.h} | floors ${b.floors} | cap ${capacityUnits(b)}${
+                                  occ ? ` | residents ${occ.occupants} | vacancy ${((1 - occ.occupants / Math.max(occ.capacity, 1)) * 100).toFixed(0)}%` : ""
                                 }`}
-                                title={`${b.kind} | floors ${b.floors} | cap ${b.floors * b.baseCapacity}`}
                               >
-                                {b.kind === "house" ? "H" : b.kind === "work" ? "W" : "F"}
+                                {r === b.r && c === b.c && BUILDING_KINDS[b.kind].glyph}
                               </div>
                             )}
+                            {/* selected building */}
+                            {b && b === selectedBuilding && (
+                              <div className="absolute inset-0 border-primary pointer-events-none"
+                                style={{
+                                  borderTopWidth: r === b.r ? 2 : 0,
+                                  borderBottomWidth: r === b.r + b.h - 1 ? 2 : 0,
+                                  borderLeftWidth: c === b.c ? 2 : 0,
+                                  borderRightWidth: c === b.c + b.w - 1 ? 2 : 0,
+                                }}
+                              />
+                            )}
+                            {/* isochrone origin */}
+                            {overlay === "isochrone" && isoOrigin?.r === r && isoOrigin?.c === c && (
+                              <div className="absolute inset-[5px] rounded-full border-2 border-white bg-primary pointer-events-none" />
+                            )}
+                            {/* footprint being dragged */}
+                            {dragRect && r >= dragRect.r && r < dragRect.r + dragRect.h && c >= dragRect.c && c < dragRect.c + dragRect.w && (
+                              <div className="absolute inset-0 bg-primary/30" />
+                            )}
                           </div>
                         );
                       })}
                     </div>
                   ))}
                 </div>
+
+                {/* transit lines overlay */}
+                <svg className="absolute inset-0 pointer-events-none" width={widthPx} height={heightPx}>
+                  {transitLines.map((line) => {
+                    const pts = line.stops.map((s) => `${(s.c + 0.5) * cellPx},${(s.r + 0.5) * cellPx}`).join(" ");
+                    const color = transitColor(line.id);
+                    return (
+                      <g key={line.id} opacity={activeLineId === null || activeLineId === line.id ? 1 : 0.5}>
+                        <polyline points={pts} fill="none" stroke={color} strokeWidth={3} strokeLinejoin="round" />
+                        {line.stops.map((s, i) => (
+                          <circle key={i} cx={(s.c + 0.5) * cellPx} cy={(s.r + 0.5) * cellPx} r={5} fill="white" stroke={color} strokeWidth={2} />
+                        ))}
+                      </g>
+                    );
+                  })}
+                  {agentPositions.map((a, i) => (
+                    <circle key={i} cx={a.x * cellPx} cy={a.y * cellPx} r={4} fill={modeColors[a.mode]} stroke="white" strokeWidth={1} />
+                  ))}
+                </svg>
+              </div>
+              {(overlay === "isochrone" || overlay === "jobs") && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                  <Select value={accessMode} onValueChange={(v) => setAccessMode(v as TravelMode)}>
+                    <SelectTrigger className="w-32 h-8 bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(accessModeLabels) as TravelMode[]).map((m) => (
+                        <SelectItem key={m} value={m}>{accessModeLabels[m]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {overlay === "isochrone" ? (
+                    <>
+                      <Label className="text-foreground text-xs">Band (min)</Label>
+                      <Input className="h-8 w-16 bg-input border-border text-foreground" type="number" value={isoBandMin} min={1} max={60}
+                        onChange={(e) => setIsoBandMin(clamp(parseInt(e.target.value || "0"), 1, 60))}
+                      />
+                      {[...Array(ISO_BANDS)].map((_, i) => (
+                        <span key={i} className="flex items-center gap-1">
+                          <span className="inline-block w-3 h-3 rounded-sm" style={{ background: heatColor((i + 1) / ISO_BANDS) }} />
+                          ≤ {(i + 1) * isoBandMin} min
+                        </span>
+                      ))}
+                      <span className="text-muted-foreground">{isoOrigin ? `From (${isoOrigin.r}, ${isoOrigin.c}).` : "Click a cell to set the origin."}</span>
+                    </>
+                  ) : (
+                    <>
+                      <Label className="text-foreground text-xs">Within (min)</Label>
+                      <Input className="h-8 w-16 bg-input border-border text-foreground" type="number" value={jobMinutes} min={1} max={120}
+                        onChange={(e) => setJobMinutes(clamp(parseInt(e.target.value || "0"), 1, 120))}
+                      />
+                      <span>0</span>
+                      <span className="inline-block h-3 w-32 rounded-sm"
+                        style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(heatColor).join(", ")})` }}
+                      />
+                      <span>{overlayMax} jobs</span>
+                      {jobAccess && (
+                        <span className="text-muted-foreground">
+                          City score: {jobAccess.avgJobsPerHome.toFixed(0)} jobs per home
+                          ({((jobAccess.avgJobsPerHome / Math.max(jobAccess.totalJobs, 1)) * 100).toFixed(0)}% of all jobs)
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+              {overlay !== "off" && overlay !== "isochrone" && overlay !== "jobs" && (
+                <div className="flex items-center gap-2 mt-2 text-xs">
+                  <span className="text-muted-foreground">{overlayLabels[overlay]}{overlay === "vc" ? " (busiest slice)" : " (legs / day)"}</span>
+                  <span>0</span>
+                  <span className="inline-block h-3 w-40 rounded-sm"
+                    style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(heatColor).join(", ")})` }}
+                  />
+                  <span>{overlay === "vc" ? `≥ ${VC_SCALE_MAX * 100}%` : Math.round(overlayMax)}</span>
+                  {!metrics ? (
+                    <span className="text-muted-foreground">Run the simulation to fill the overlay.</span>
+                  ) : overlayValues.size === 0 && (
+                    <span className="text-muted-foreground">
+                      {overlay === "vc" ? "Needs road distances and traffic assignment." : "No legs recorded; paths need road distances."}
+                    </span>
+                  )}
+                </div>
+              )}
+              {metrics && hasTracks && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                  <Switch checked={showAgents} title="Show agents"
+                    onCheckedChange={(on) => { setShowAgents(on); if (!on) setPlaying(false); }}
+                  />
+                  <Button variant="secondary" size="icon" className="h-8 w-8" title={playing ? "Pause" : "Play the day"}
+                    onClick={() => { setShowAgents(true); setPlaying(!playing); }}
+                  >
+                    {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Select value={String(playSpeed)} onValueChange={(v) => setPlaySpeed(Number(v))}>
+                    <SelectTrigger className="w-28 h-8 bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PLAYBACK_SPEEDS.map((v) => <SelectItem key={v} value={String(v)}>{v} min / s</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Slider className="flex-1 min-w-32" min={0} max={24} step={1 / 60} value={[playHour]}
+                    onValueChange={([h]) => { setShowAgents(true); setPlayHour(h); }}
+                  />
+                  <span className="w-10 tabular-nums">{formatHour(playHour)}</span>
+                  {showAgents && (
+                    <span className="text-muted-foreground">
+                      {agentPositions.length} of {metrics.agent_tracks.length} sampled agents on the move
+                    </span>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                {BUILDING_KIND_ORDER.map((kind) => (
+                  <span key={kind} className="flex items-center gap-1">
+                    <span className="inline-flex w-4 h-4 rounded items-center justify-center text-[9px] font-medium text-white"
+                      style={{ background: BUILDING_KINDS[kind].color }}
+                    >
+                      {BUILDING_KINDS[kind].glyph}
+                    </span>
+                    {BUILDING_KINDS[kind].label}
+                  </span>
+                ))}
               </div>
               <p className="text-xs text-muted-foreground mt-2">
-                Tip: choose a tool (Road/Erase/House/Work/Food). Hold and drag to draw roads. Switch to <em>Line</em> to lay L-shaped roads.
+                Tip: choose a tool (Road/Walkway/Bike lane/Transit/Erase or a building kind). Drag with a building tool to lay out a larger footprint; use <em>Select</em> to inspect and edit one. Hold and drag to draw roads of the selected class. Switch to <em>Line</em> to lay L-shaped roads. Highways are car-only; pedestrian paths and walkways are walk-only.
               </p>
             </CardContent>
           </Card>
 
+          {selectedBuilding && (
+            <BuildingInspectorCard
+              building={selectedBuilding}
+              cost={costOf(selectedBuilding)}
+              costFor={(fl, cap) => costOf({ ...selectedBuilding, floors: fl, baseCapacity: cap })}
+              provisioning={{ jobsPerWorkplace, mealsPerFoodPlace }}
+              stats={metrics?.building_stats.find((st) => st.r === selectedBuilding.r && st.c === selectedBuilding.c) ?? null}
+              onChange={(patch) => updateBuilding(selectedBuilding, patch)}
+              onClose={() => setSelected(null)}
+            />
+          )}
+
           <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
             <Card className="bg-card border-border text-card-foreground">
               <CardHeader>
                 <CardTitle>Metrics</CardTitle>
               </CardHeader>
               <CardContent>
+                {progress && (
+                  <div className="mb-4 space-y-1 text-sm">
+                    <div className="h-2 rounded-full bg-muted overflow-hidden">
+                      <div className="h-full bg-primary" style={{ width: `${(100 * progress.peopleDone) / Math.max(progress.total, 1)}%` }} />
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      Simulating… {progress.peopleDone.toLocaleString()} / {progress.total.toLocaleString()} people, {progress.legsRouted.toLocaleString()} legs routed
+                    </p>
+                  </div>
+                )}
                 {metrics ? (
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div className="p-3 rounded-xl bg-muted">
@@ -900,7 +1821,118 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                         <div className="text-muted-foreground">Travel in (workers)</div>
                         <div className="text-xl font-semibold">{metrics.travel_in}</div>
                     </div>
-        
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Cyclists</div>
+                      <div className="text-xl font-semibold">{metrics.cyclists_count}</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Avg bike / day</div>
+                      <div className="text-xl font-semibold">{metrics.avg_bike_m_per_day.toFixed(0)} m</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Transit riders</div>
+                      <div className="text-xl font-semibold">{metrics.transit_riders}</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Avg transit / day</div>
+                      <div className="text-xl font-semibold">{metrics.avg_transit_m_per_day.toFixed(0)} m</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Avg transit wait</div>
+                      <div className="text-xl font-semibold">{metrics.avg_transit_wait_min.toFixed(1)} min</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Transit CO₂ / day</div>
+                      <div className="text-xl font-semibold">{metrics.transit_emissions_kg_per_day.toFixed(2)} kg</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Seed</div>
+                      <div className="text-xl font-semibold">{metrics.seed}</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Housing vacancy</div>
+                      <div className="text-xl font-semibold">{(metrics.housing_vacancy_rate * 100).toFixed(1)}%</div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Empty / full houses</div>
+                      <div className="text-xl font-semibold">
+                        {metrics.housing.filter((h) => h.occupants === 0).length} / {metrics.housing.filter((h) => h.occupants >= h.capacity).length}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Unserved stops</div>
+                      <div className="text-xl font-semibold" title="Chain stops with no building offering the activity">{metrics.unserved_stops}</div>
+                    </div>
+                    <div className="col-span-2 p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground mb-1">By person type (per person / day)</div>
+                      <div className="grid grid-cols-5 gap-x-2 gap-y-0.5 text-xs">
+                        <div />
+                        <div className="text-muted-foreground text-right">People</div>
+                        <div className="text-muted-foreground text-right">Trips</div>
+                        <div className="text-muted-foreground text-right">Time</div>
+                        <div className="text-muted-foreground text-right">Distance</div>
+                        {PERSON_TYPES.map((t) => {
+                          const g = metrics.by_person_type[t];
+                          return (
+                            <React.Fragment key={t}>
+                              <div>{PERSON_TYPE_LABELS[t]}</div>
+                              <div className="text-right" title={`${g.at_home} stayed home`}>{g.count}</div>
+                              <div className="text-right">{(g.trips / Math.max(g.count, 1)).toFixed(1)}</div>
+                              <div className="text-right">{g.avg_travel_time_min.toFixed(1)} min</div>
+                              <div className="text-right">{g.avg_distance_m.toFixed(0)} m</div>
+                            </React.Fragment>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div className="col-span-2 p-3 rounded-xl bg-muted">
+                      <div className="text-muted-foreground">Over capacity</div>
+                      {metrics.overflow.length ? (
+                        <ul className="mt-1 space-y-0.5">
+                          {metrics.overflow.map((o) => (
+                            <li key={`${o.activity}:${o.r},${o.c}`} className="flex justify-between">
+                              <span>{BUILDING_KINDS[o.kind].label} ({o.r}, {o.c}) · {o.activity}</span>
+                              <span className="font-semibold">{o.assigned} / {o.capacity} (+{o.assigned - o.capacity})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="text-xl font-semibold">None</div>
+                      )}
+                    </div>
+                    {metrics.traffic && (
+                      <>
+                        <div className="p-3 rounded-xl bg-muted">
+                          <div className="text-muted-foreground">Congestion delay / day</div>
+                          <div className="text-xl font-semibold">{metrics.traffic.vehicle_hours_delay.toFixed(1)} veh·h</div>
+                        </div>
+                        <div className="p-3 rounded-xl bg-muted">
+                          <div className="text-muted-foreground">Avg delay / drive leg</div>
+                          <div className="text-xl font-semibold"
+                            title={`${metrics.traffic.iterations} iterations, relative gap ${metrics.traffic.relative_gap.toExponential(1)}`}
+                          >
+                            {metrics.traffic.avg_delay_min_per_drive_leg.toFixed(2)} min
+                          </div>
+                        </div>
+                        <div className="col-span-2 p-3 rounded-xl bg-muted">
+                          <div className="text-muted-foreground">Congestion hotspots (busiest slice)</div>
+                          {hotspots.length ? (
+                            <ul className="mt-1 space-y-0.5">
+                              {hotspots.map((l) => (
+                                <li key={`${l.r},${l.c}`} className="flex justify-between">
+                                  <span>({l.r}, {l.c}) · {Math.round(l.volume)} / {Math.round(l.capacity)} veh/h</span>
+                                  <span className="font-semibold">
+                                    {(l.vc_ratio * 100).toFixed(0)}% · {(l.speed_ratio * 100).toFixed(0)}% speed
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <div className="text-xl font-semibold">None</div>
+                          )}
+                        </div>
+                      </>
+                    )}
 
                   </div>
                 ) : (
@@ -928,6 +1960,98 @@ for (let c = targetCols - 1; c >= 0 && placed < houseCount; c--) {
                 ) : (
                   <p className="text-muted-foreground">Results will appear here as a chart.</p>
                 )}
+                {metrics && (
+                  <div className="h-48 mt-4">
+                    <div className="text-muted-foreground text-sm">Mode split (legs / day)</div>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={modeSplitData}>
+                        <XAxis dataKey="mode" tick={{ fill: "var(--muted-foreground)" }} />
+                        <YAxis tick={{ fill: "var(--muted-foreground)" }} />
+                        <Tooltip contentStyle={{ background: "var(--popover)", border: "1px solid var(--border)" }} labelStyle={{ color: "var(--foreground)" }} />
+                        <Bar dataKey="legs">
+                          {modeSplitData.map((d) => <BarCell key={d.mode} fill={modeColors[d.mode]} />)}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {metrics && (
+                  <div className="h-56 mt-8">
+                    <div className="text-muted-foreground text-sm">Legs by departure time</div>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={dayProfileData}>
+                        <XAxis dataKey="time" tick={{ fill: "var(--muted-foreground)" }} minTickGap={12} />
+                        <YAxis tick={{ fill: "var(--muted-foreground)" }} />
+                        <Tooltip contentStyle={{ background: "var(--popover)", border: "1px solid var(--border)" }} labelStyle={{ color: "var(--foreground)" }} />
+                        <Legend />
+                        {TRIP_MODES.map((m) => <Bar key={m} dataKey={m} stackId="legs" fill={modeColors[m]} />)}
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {metrics && (
+                  <div className="h-48 mt-10">
+                    <div className="text-muted-foreground text-sm">CO₂ (kg) and avg leg time (min) by departure time</div>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={dayProfileData}>
+                        <XAxis dataKey="time" tick={{ fill: "var(--muted-foreground)" }} minTickGap={12} />
+                        <YAxis yAxisId="co2" tick={{ fill: "var(--muted-foreground)" }} />
+                        <YAxis yAxisId="minutes" orientation="right" tick={{ fill: "var(--muted-foreground)" }} />
+                        <Tooltip contentStyle={{ background: "var(--popover)", border: "1px solid var(--border)" }} labelStyle={{ color: "var(--foreground)" }} />
+                        <Legend />
+                        <Line yAxisId="co2" type="monotone" dataKey="co2" name="CO₂ (kg)" stroke="var(--destructive)" dot={false} />
+                        <Line yAxisId="minutes" type="monotone" dataKey="minutes" name="Avg time (min)" stroke="var(--primary)" dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {peakOffPeak && (
+                  <table className="w-full text-xs mt-10">
+                    <thead className="text-muted-foreground">
+                      <tr>
+                        <th className="text-left font-normal">Per slice</th>
+                        <th className="text-right font-normal">Peak ({formatHour(peakOffPeak.start)})</th>
+                        <th className="text-right font-normal">Off-peak avg</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {([
+                        ["Trips", (g) => g.trips.toFixed(0)],
+                        ["Drive share", (g) => `${(g.driveShare * 100).toFixed(1)}%`],
+                        ["Avg leg time", (g) => `${g.minutes.toFixed(1)} min`],
+                        ["CO₂ / leg", (g) => `${g.co2PerLeg.toFixed(3)} kg`],
+                      ] as [string, (g: NonNullable<typeof peakOffPeak>["peak"]) => string][]).map(([label, show]) => (
+                        <tr key={label}>
+                          <td>{label}</td>
+                          <td className="text-right font-semibold">{show(peakOffPeak.peak)}</td>
+                          <td className="text-right font-semibold">{show(peakOffPeak.offPeak)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {metrics && (
+                  <p className="text-muted-foreground text-xs mt-6">
+                    Expected share:{" "}
+                    {TRIP_MODES.map((m) => `${m} ${(metrics.expected_mode_share[m] * 100).toFixed(1)}%`).join(" · ")}
+                  </p>
+                )}
+                {shareCurveData.length > 0 && (
+                  <div className="h-56 mt-2">
+                    <div className="text-muted-foreground text-sm">Expected mode share (%) vs car cost</div>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={shareCurveData}>
+                        <XAxis dataKey="factor" tick={{ fill: "var(--muted-foreground)" }} />
+                        <YAxis tick={{ fill: "var(--muted-foreground)" }} domain={[0, 100]} />
+                        <Tooltip contentStyle={{ background: "var(--popover)", border: "1px solid var(--border)" }} labelStyle={{ color: "var(--foreground)" }} />
+                        <Legend />
+                        {TRIP_MODES.map((m) => (
+                          <Line key={m} type="monotone" dataKey={m} stroke={modeColors[m]} dot={false} />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,93 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { inputClass, num } from "@/components/ui/fields";
+import { Scale } from "lucide-react";
+import { TRIP_MODES, type LogitConfig, type ModeChoiceModel, type ModeCost, type TripMode } from "@/lib/sim";
+
+type Props = {
+  model: ModeChoiceModel;
+  onModelChange: (m: ModeChoiceModel) => void;
+  logit: LogitConfig;
+  onLogitChange: (l: LogitConfig) => void;
+};
+
+export default function ModeChoiceCard({ model, onModelChange, logit, onLogitChange }: Props) {
+  const setCost = (mode: TripMode, field: keyof ModeCost, v: number) =>
+    onLogitChange({ ...logit, costs: { ...logit.costs, [mode]: { ...logit.costs[mode], [field]: v } } });
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Scale className="w-5 h-5" /> Mode Choice</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <Label className="text-foreground">Model</Label>
+          <Select value={model} onValueChange={(v) => onModelChange(v as ModeChoiceModel)}>
+            <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="logit">Multinomial logit</SelectItem>
+              <SelectItem value="threshold">Distance thresholds</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {model === "logit" ? (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="text-foreground text-xs">Value of time ($/h)</Label>
+                <Input className={inputClass} type="number" step="1" value={logit.valueOfTimePerH} min={0}
+                  onChange={(e) => onLogitChange({ ...logit, valueOfTimePerH: num(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">Scale (1/$)</Label>
+                <Input className={inputClass} type="number" step="0.1" value={logit.scale} min={0}
+                  onChange={(e) => onLogitChange({ ...logit, scale: num(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">Taste spread</Label>
+                <Input className={inputClass} type="number" step="0.05" value={logit.tasteSd} min={0}
+                  onChange={(e) => onLogitChange({ ...logit, tasteSd: num(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 items-end text-xs">
+              <div />
+              <Label className="text-foreground text-xs">$ / km</Label>
+              <Label className="text-foreground text-xs">$ / trip</Label>
+              <Label className="text-foreground text-xs">Comfort ($)</Label>
+              {TRIP_MODES.map((mode) => (
+                <React.Fragment key={mode}>
+                  <div className="text-muted-foreground capitalize self-center">{mode}</div>
+                  {(["perKm", "fixed", "comfort"] as const).map((field) => (
+                    <Input key={field} className={inputClass} type="number" step="0.05" value={logit.costs[mode][field]}
+                      onChange={(e) => setCost(mode, field, parseFloat(e.target.value || "0"))}
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Each leg picks a mode with probability ∝ exp(−scale × cost), where cost = time × value of time
+              (varied per person) + money + comfort. Parking and fares go in $ / trip.
+            </p>
+          </>
+        ) : (
+          <p className="text-muted-foreground text-xs">
+            Walk within the walk threshold, cycle within the bike range, take transit when it is close to the car time,
+            otherwise drive.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { inputClass, num } from "@/components/ui/fields";
+import { Clock } from "lucide-react";
+import { DEPARTURE_PERIODS, type DeparturePeriod, type DepartureWindow, type TimeOfDayConfig } from "@/lib/sim";
+
+const PERIOD_LABELS: Record<DeparturePeriod, string> = {
+  morning: "Morning commute",
+  midday: "Daytime / lunch",
+  evening: "Evening return",
+};
+
+type Props = {
+  config: TimeOfDayConfig;
+  onChange: (c: TimeOfDayConfig) => void;
+};
+
+export default function TimeOfDayCard({ config, onChange }: Props) {
+  const setWindow = (period: DeparturePeriod, patch: Partial<DepartureWindow>) =>
+    onChange({ ...config, departures: { ...config.departures, [period]: { ...config.departures[period], ...patch } } });
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Clock className="w-5 h-5" /> Time of day</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2 items-center text-xs">
+          <div />
+          <Label className="text-foreground text-xs">Mean (h)</Label>
+          <Label className="text-foreground text-xs">Spread (h)</Label>
+          {DEPARTURE_PERIODS.map((period) => (
+            <React.Fragment key={period}>
+              <div className="text-muted-foreground">{PERIOD_LABELS[period]}</div>
+              <Input className={inputClass} type="number" step="0.25" value={config.departures[period].meanHour} min={0} max={24}
+                onChange={(e) => setWindow(period, { meanHour: Math.min(24, num(e.target.value)) })}
+              />
+              <Input className={inputClass} type="number" step="0.25" value={config.departures[period].sdHour} min={0}
+                onChange={(e) => setWindow(period, { sdHour: num(e.target.value) })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-foreground text-xs">Slice (min)</Label>
+            <Input className={inputClass} type="number" step="15" value={config.sliceMinutes} min={5} max={1440}
+              onChange={(e) => onChange({ ...config, sliceMinutes: Math.min(1440, Math.max(5, Math.round(num(e.target.value)))) })}
+            />
+          </div>
+          <div>
+            <Label className="text-foreground text-xs">Least stay at a stop (min)</Label>
+            <Input className={inputClass} type="number" step="5" value={config.minDwellMin} min={0}
+              onChange={(e) => onChange({ ...config, minDwellMin: num(e.target.value) })}
+            />
+          </div>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Each leg leaves at a time drawn around its period&apos;s mean, never before the previous leg arrived and the
+          stay ended. The first leg to work or school is the commute, the trip home the evening return.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
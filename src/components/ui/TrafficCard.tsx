@@ -0,0 +1,90 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { clamp, inputClass, num } from "@/components/ui/fields";
+import { Car } from "lucide-react";
+import { MAX_TRAFFIC_ITERATIONS, ROAD_CLASS_ORDER, ROAD_CLASSES, type TrafficAssignment, type TrafficConfig } from "@/lib/sim";
+
+type Props = {
+  config: TrafficConfig;
+  onChange: (c: TrafficConfig) => void;
+};
+
+export default function TrafficCard({ config, onChange }: Props) {
+  const set = <K extends keyof TrafficConfig>(key: K, value: TrafficConfig[K]) => onChange({ ...config, [key]: value });
+  const drivable = ROAD_CLASS_ORDER.filter((cls) => ROAD_CLASSES[cls].drive);
+
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Car className="w-5 h-5" /> Traffic</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <Label className="text-foreground">Assignment</Label>
+          <Select value={config.assignment} onValueChange={(v) => set("assignment", v as TrafficAssignment)}>
+            <SelectTrigger className="w-full bg-input border-border text-foreground"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="frank-wolfe">Equilibrium (Frank-Wolfe)</SelectItem>
+              <SelectItem value="msa">Equilibrium (successive averages)</SelectItem>
+              <SelectItem value="all-or-nothing">All-or-nothing</SelectItem>
+              <SelectItem value="off">Off (free-flow speeds)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.assignment !== "off" && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="text-foreground text-xs">Max iterations</Label>
+                <Input className={inputClass} type="number" step="1" value={config.maxIterations} min={0} max={MAX_TRAFFIC_ITERATIONS}
+                  onChange={(e) => set("maxIterations", clamp(Math.round(num(e.target.value)), 0, MAX_TRAFFIC_ITERATIONS))}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">Idle CO₂ (kg/h)</Label>
+                <Input className={inputClass} type="number" step="0.1" value={config.idleEmissionsKgPerH} min={0}
+                  onChange={(e) => set("idleEmissionsKgPerH", num(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">BPR α</Label>
+                <Input className={inputClass} type="number" step="0.05" value={config.bprAlpha} min={0}
+                  onChange={(e) => set("bprAlpha", num(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">BPR β</Label>
+                <Input className={inputClass} type="number" step="0.5" value={config.bprBeta} min={0}
+                  onChange={(e) => set("bprBeta", num(e.target.value))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 items-center text-xs">
+              <div />
+              <Label className="text-foreground text-xs">Capacity (veh/h per cell)</Label>
+              {drivable.map((cls) => (
+                <React.Fragment key={cls}>
+                  <div className="text-muted-foreground">{ROAD_CLASSES[cls].label}</div>
+                  <Input className={inputClass} type="number" step="100" value={config.capacityVehPerH[cls]} min={0}
+                    onChange={(e) => set("capacityVehPerH", { ...config.capacityVehPerH, [cls]: num(e.target.value) })}
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Each time slice&apos;s drive legs are assigned to road cells as an hourly flow; each cell slows down
+              as t₀·(1 + α(v/c)^β). Every drive leg pays the delay of the slice it departs in.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { clamp, fieldClass, inputClass, num } from "@/components/ui/fields";
+import { Bus, Plus, Trash2 } from "lucide-react";
+import type { TransitLine } from "@/lib/sim";
+
+// Stroke colours for line overlays, cycled by line id
+export const TRANSIT_COLORS = ["#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c"];
+
+export function transitColor(id: number) {
+  return TRANSIT_COLORS[id % TRANSIT_COLORS.length];
+}
+
+type Props = {
+  lines: TransitLine[];
+  activeLineId: number | null;
+  maxTimeRatio: number;
+  onMaxTimeRatioChange: (v: number) => void;
+  onNewLine: () => void;
+  onSelectLine: (id: number) => void;
+  onUpdateLine: (id: number, patch: Partial<TransitLine>) => void;
+  onDeleteLine: (id: number) => void;
+};
+
+export default function TransitLinesCard({
+  lines,
+  activeLineId,
+  maxTimeRatio,
+  onMaxTimeRatioChange,
+  onNewLine,
+  onSelectLine,
+  onUpdateLine,
+  onDeleteLine,
+}: Props) {
+  return (
+    <Card className="bg-card border-border text-card-foreground">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Bus className="w-5 h-5" /> Transit Lines</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="secondary" onClick={onNewLine}><Plus className="w-4 h-4 mr-1" />New line</Button>
+          <div className="flex items-center gap-2">
+            <Label className="text-foreground whitespace-nowrap">Max time vs car (×)</Label>
+            <Input className={`w-20 ${fieldClass}`}
+              type="number" step="0.1" value={maxTimeRatio} min={0}
+              onChange={(e) => onMaxTimeRatioChange(num(e.target.value))}
+            />
+          </div>
+        </div>
+
+        {lines.length === 0 && (
+          <p className="text-muted-foreground text-xs">
+            Add a line, then click road cells with the Transit tool to place its stops in order.
+          </p>
+        )}
+
+        {lines.map((line) => (
+          <div
+            key={line.id}
+            className={`p-2 rounded-xl border space-y-2 ${line.id === activeLineId ? "border-ring" : "border-border"}`}
+            onClick={() => onSelectLine(line.id)}
+          >
+            <div className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ background: transitColor(line.id) }} />
+              <Input className={inputClass}
+                value={line.name}
+                onChange={(e) => onUpdateLine(line.id, { name: e.target.value })}
+              />
+              <span className="text-muted-foreground text-xs whitespace-nowrap">{line.stops.length} stops</span>
+              <Button variant="ghost" size="icon" title="Delete line" onClick={(e) => { e.stopPropagation(); onDeleteLine(line.id); }}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="text-foreground text-xs">Speed (km/h)</Label>
+                <Input className={inputClass}
+                  type="number" value={line.speedKmh} min={1} max={120}
+                  onChange={(e) => onUpdateLine(line.id, { speedKmh: clamp(parseInt(e.target.value), 1, 120) })}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">Headway (min)</Label>
+                <Input className={inputClass}
+                  type="number" value={line.headwayMin} min={1} max={120}
+                  onChange={(e) => onUpdateLine(line.id, { headwayMin: clamp(parseInt(e.target.value), 1, 120) })}
+                />
+              </div>
+              <div>
+                <Label className="text-foreground text-xs">CO₂ (kg/pkm)</Label>
+                <Input className={inputClass}
+                  type="number" step="0.01" value={line.emissionsKgPerPaxKm} min={0}
+                  onChange={(e) => onUpdateLine(line.id, { emissionsKgPerPaxKm: num(e.target.value) })}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+// Styling and parsing shared by the inputs on the settings cards
+
+export const fieldClass = "bg-input border-border text-foreground placeholder-muted-foreground focus-visible:ring-ring";
+export const inputClass = `h-8 ${fieldClass}`;
+
+// A non-negative number typed into an input; empty reads as 0
+export const num = (v: string) => Math.max(0, parseFloat(v || "0"));
+
+// Keeps n within [lo, hi]; NaN, as from an emptied input, reads as lo
+export function clamp(n: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, isNaN(n) ? lo : n));
+}
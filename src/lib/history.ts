@@ -0,0 +1,40 @@
+// Undo/redo over immutable snapshots: each step keeps the state from before it
+export type History<T> = {
+  past: T[];
+  future: T[];
+  lastKey?: string;  // key of the newest step, so repeated edits can merge
+};
+
+export const HISTORY_LIMIT = 100;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Records `before` as a new step and drops the redo branch. A step with the
+// same key as the newest one (e.g. typing into one field) merges into it,
+// and nothing is recorded while `before` still equals the newest snapshot.
+export function checkpoint<T>(h: History<T>, before: T, same: (a: T, b: T) => boolean, key?: string): History<T> {
+  const top = h.past[h.past.length - 1];
+  if (top !== undefined && ((key !== undefined && key === h.lastKey) || same(top, before))) {
+    return { ...h, future: [] };
+  }
+  return { past: [...h.past, before].slice(-HISTORY_LIMIT), future: [], lastKey: key };
+}
+
+// Steps back to the newest snapshot that differs from `current`
+export function undo<T>(h: History<T>, current: T, same: (a: T, b: T) => boolean) {
+  const past = [...h.past];
+  while (past.length) {
+    const state = past.pop()!;
+    if (!same(state, current)) return { history: { past, future: [...h.future, current] }, state };
+  }
+  return null;
+}
+
+export function redo<T>(h: History<T>, current: T) {
+  if (!h.future.length) return null;
+  const future = [...h.future];
+  const state = future.pop()!;
+  return { history: { past: [...h.past, current], future }, state };
+}
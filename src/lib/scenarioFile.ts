@@ -0,0 +1,320 @@
+import {
+  ACTIVITIES,
+  BUILDING_KINDS,
+  MAX_CELL_SIZE_M,
+  MAX_GRID_SIZE,
+  MAX_POPULATION,
+  MAX_SEED,
+  MAX_TRAFFIC_ITERATIONS,
+  MIN_CELL_SIZE_M,
+  MIN_GRID_SIZE,
+  PERSON_TYPES,
+  ROAD_CLASSES,
+  defaultCostModel,
+  defaultLogitConfig,
+  defaultRoadSpeeds,
+  defaultTimeOfDayConfig,
+  defaultTrafficConfig,
+  keyOf,
+  type Building,
+  type BuildingKind,
+  type CostModel,
+  type HouseCostParams,
+  type LedgerEntry,
+  type RoadClass,
+  type SimConfig,
+  type TrafficConfig,
+  type TransitLine,
+  type World,
+} from "@/lib/sim";
+
+// A complete scenario as saved to file and localStorage. Bump the version
+// whenever the shape changes and add a migration from the previous one.
+export const SCENARIO_VERSION = 4;
+
+export type Scenario = {
+  version: typeof SCENARIO_VERSION;
+  world: {
+    rows: number;
+    cols: number;
+    cellSizeM: number;
+    roads: Record<string, RoadClass>;  // "r,c" keys
+    walkways: string[];
+    bikeLanes: string[];
+    transitLines: TransitLine[];
+    buildings: Building[];
+  };
+  config: SimConfig;  // every mobility parameter, including the rng seed
+  budget: {
+    total: number;
+    ledger: LedgerEntry[];
+    costModel: CostModel;
+    house: HouseCostParams;
+  };
+};
+
+export type ScenarioResult =
+  | { ok: true; scenario: Scenario }
+  | { ok: false; error: string };
+
+export function toScenario(world: World, config: SimConfig, budget: Scenario["budget"]): Scenario {
+  return {
+    version: SCENARIO_VERSION,
+    world: {
+      rows: world.rows,
+      cols: world.cols,
+      cellSizeM: world.cellSizeM,
+      roads: Object.fromEntries(world.roads),
+      walkways: [...world.walkways],
+      bikeLanes: [...world.bikeLanes],
+      transitLines: world.transitLines,
+      buildings: world.buildings,
+    },
+    config,
+    budget,
+  };
+}
+
+export function scenarioWorld(s: Scenario): World {
+  const w = s.world;
+  return {
+    rows: w.rows,
+    cols: w.cols,
+    cellSizeM: w.cellSizeM,
+    roads: new Map(Object.entries(w.roads)),
+    walkways: new Set(w.walkways),
+    bikeLanes: new Set(w.bikeLanes),
+    transitLines: w.transitLines,
+    buildings: w.buildings,
+  };
+}
+
+export function serializeScenario(s: Scenario) {
+  return JSON.stringify(s, null, 2);
+}
+
+// Parses, migrates and validates a saved scenario. Errors name the offending
+// field, e.g. "world.buildings[3].floors: expected a number ≥ 1".
+export function parseScenario(text: string): ScenarioResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, error: `Not valid JSON: ${(e as Error).message}` };
+  }
+  return checkScenario(raw);
+}
+
+// Migrates and validates an already-decoded scenario object
+export function checkScenario(raw: unknown): ScenarioResult {
+  try {
+    return { ok: true, scenario: validate(migrate(raw)) };
+  } catch (e) {
+    if (e instanceof Invalid) return { ok: false, error: e.message };
+    throw e;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migrations: MIGRATIONS[v] turns a version-v file into version v + 1.
+// Version 2 is the first layout the app saved.
+const OLDEST_VERSION = 2;
+
+// v2 predates traffic assignment
+type ScenarioV2 = Omit<Scenario, "version" | "config"> & { version: 2; config: Omit<SimConfig, "traffic" | "timeOfDay"> };
+
+// v3 assigned one peak hour holding a fixed share of the day's drive legs
+type ScenarioV3 = Omit<Scenario, "version" | "config"> & {
+  version: 3;
+  config: Omit<SimConfig, "traffic" | "timeOfDay"> & { traffic: TrafficConfig & { peakHourShare?: number } };
+};
+
+const MIGRATIONS: Record<number, (s: never) => unknown> = {
+  2: (s: ScenarioV2) => {
+    check(isObject(s.config), "config", "expected an object");
+    return { ...s, version: 3, config: { ...s.config, traffic: defaultTrafficConfig() } };
+  },
+  3: (s: ScenarioV3) => {
+    check(isObject(s.config), "config", "expected an object");
+    check(isObject(s.config.traffic), "config.traffic", "expected an object");
+    // Departure times now decide which legs share a slice of the road network
+    const traffic = { ...s.config.traffic };
+    delete traffic.peakHourShare;
+    return { ...s, version: 4, config: { ...s.config, traffic, timeOfDay: defaultTimeOfDayConfig() } };
+  },
+};
+
+function migrate(raw: unknown): unknown {
+  check(isObject(raw), "", "expected a scenario object");
+  let s = raw as { version?: unknown };
+  check(Number.isInteger(s.version), "version", "missing or not a whole number");
+  let v = s.version as number;
+  check(v >= OLDEST_VERSION, "version", `unknown version ${v}`);
+  check(v <= SCENARIO_VERSION, "version", `file is version ${v}, this app reads up to ${SCENARIO_VERSION}`);
+  for (; v < SCENARIO_VERSION; v++) s = MIGRATIONS[v](s as never) as { version: number };
+  return s;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+
+// Thrown by checks and turned into an error result by parseScenario
+class Invalid extends Error {}
+
+function check(ok: boolean, path: string, msg: string): asserts ok {
+  if (!ok) throw new Invalid(path ? `${path}: ${msg}` : msg);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function num(v: unknown, path: string, min = -Infinity, max = Infinity): number {
+  check(typeof v === "number" && Number.isFinite(v), path, "expected a number");
+  check(v >= min, path, `expected a number ≥ ${min}`);
+  check(v <= max, path, `expected a number ≤ ${max}`);
+  return v;
+}
+
+function int(v: unknown, path: string, min = -Infinity, max = Infinity): number {
+  check(Number.isInteger(v), path, "expected a whole number");
+  return num(v, path, min, max);
+}
+
+function oneOf<T extends string>(v: unknown, options: readonly T[], path: string): T {
+  check(options.includes(v as T), path, `expected one of ${options.join(", ")}`);
+  return v as T;
+}
+
+function list(v: unknown, path: string): unknown[] {
+  check(Array.isArray(v), path, "expected a list");
+  return v;
+}
+
+function record(v: unknown, path: string): Record<string, unknown> {
+  check(isObject(v), path, "expected an object");
+  return v;
+}
+
+// Every numeric leaf of `template` must be present as a number in `v`;
+// other leaves are checked by the caller
+function numbersLike(v: unknown, template: object, path: string) {
+  const o = record(v, path);
+  for (const [k, t] of Object.entries(template)) {
+    if (typeof t === "number") num(o[k], `${path}.${k}`);
+    else if (typeof t === "object") numbersLike(o[k], t, `${path}.${k}`);
+  }
+}
+
+function cellKey(v: unknown, rows: number, cols: number, path: string) {
+  check(typeof v === "string" && /^\d+,\d+$/.test(v), path, "expected an \"r,c\" cell key");
+  const [r, c] = v.split(",").map(Number);
+  check(r < rows && c < cols, path, `cell ${v} is outside the ${rows} × ${cols} grid`);
+  return keyOf(r, c);
+}
+
+const NON_NEGATIVE_SETTINGS: (keyof SimConfig)[] = [
+  "population", "walkMaxM", "carEmissionsKgPerKm", "walkEmissionsKgPerKm", "carSpeed", "walkSpeed",
+  "bikeSpeed", "bikeLaneSpeedKmh", "bikeMaxM", "bikeEmissionsKgPerKm", "transitMaxTimeRatio",
+  "destinationDecayPerKm", "jobsPerWorkplace", "mealsPerFoodPlace", "boundaryPenaltyKgPerPerson",
+];
+
+function validate(raw: unknown): Scenario {
+  const s = record(raw, "");
+  const w = record(s.world, "world");
+  const rows = int(w.rows, "world.rows", MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const cols = int(w.cols, "world.cols", MIN_GRID_SIZE, MAX_GRID_SIZE);
+  num(w.cellSizeM, "world.cellSizeM", MIN_CELL_SIZE_M, MAX_CELL_SIZE_M);
+
+  const roads = record(w.roads, "world.roads");
+  for (const [k, cls] of Object.entries(roads)) {
+    cellKey(k, rows, cols, `world.roads["${k}"]`);
+    oneOf(cls, Object.keys(ROAD_CLASSES) as RoadClass[], `world.roads["${k}"]`);
+  }
+  list(w.walkways, "world.walkways").forEach((k, i) => cellKey(k, rows, cols, `world.walkways[${i}]`));
+  list(w.bikeLanes, "world.bikeLanes").forEach((k, i) => cellKey(k, rows, cols, `world.bikeLanes[${i}]`));
+
+  list(w.transitLines, "world.transitLines").forEach((l, i) => {
+    const p = `world.transitLines[${i}]`;
+    const line = record(l, p);
+    int(line.id, `${p}.id`);
+    check(typeof line.name === "string", `${p}.name`, "expected text");
+    num(line.speedKmh, `${p}.speedKmh`, 0);
+    num(line.headwayMin, `${p}.headwayMin`, 0);
+    num(line.emissionsKgPerPaxKm, `${p}.emissionsKgPerPaxKm`, 0);
+    list(line.stops, `${p}.stops`).forEach((st, j) => {
+      const cell = record(st, `${p}.stops[${j}]`);
+      const r = int(cell.r, `${p}.stops[${j}].r`, 0, rows - 1);
+      const c = int(cell.c, `${p}.stops[${j}].c`, 0, cols - 1);
+      check(keyOf(r, c) in roads, `${p}.stops[${j}]`, `stop at ${keyOf(r, c)} is not on a road`);
+    });
+  });
+
+  const taken = new Set<string>();
+  list(w.buildings, "world.buildings").forEach((b, i) => {
+    const p = `world.buildings[${i}]`;
+    const o = record(b, p);
+    oneOf(o.kind, Object.keys(BUILDING_KINDS) as BuildingKind[], `${p}.kind`);
+    const r = int(o.r, `${p}.r`, 0, rows - 1);
+    const c = int(o.c, `${p}.c`, 0, cols - 1);
+    const bw = int(o.w, `${p}.w`, 1, cols - c);
+    const bh = int(o.h, `${p}.h`, 1, rows - r);
+    int(o.floors, `${p}.floors`, 1);
+    num(o.baseCapacity, `${p}.baseCapacity`, 0);
+    for (let dr = 0; dr < bh; dr++) {
+      for (let dc = 0; dc < bw; dc++) {
+        const k = keyOf(r + dr, c + dc);
+        check(!taken.has(k), p, `overlaps another building at ${k}`);
+        check(!(k in roads), p, `stands on a road at ${k}`);
+        taken.add(k);
+      }
+    }
+  });
+
+  const cfg = record(s.config, "config");
+  for (const k of NON_NEGATIVE_SETTINGS) num(cfg[k], `config.${k}`, 0);
+  int(cfg.population, "config.population", 0, MAX_POPULATION);
+  int(cfg.seed, "config.seed", 0, MAX_SEED);
+  oneOf(cfg.distanceMode, ["road", "euclid", "manhattan"], "config.distanceMode");
+  oneOf(cfg.destinationModel, ["gravity", "nearest", "random"], "config.destinationModel");
+  oneOf(cfg.housingModel, ["proportional", "accessibility", "random"], "config.housingModel");
+  oneOf(cfg.capacityAssignment, ["none", "greedy", "transport"], "config.capacityAssignment");
+  oneOf(cfg.modeChoice, ["threshold", "logit"], "config.modeChoice");
+  numbersLike(cfg.roadSpeedsKmh, defaultRoadSpeeds(), "config.roadSpeedsKmh");
+  numbersLike(cfg.logit, defaultLogitConfig(), "config.logit");
+  numbersLike(cfg.traffic, defaultTrafficConfig(), "config.traffic");
+  const traffic = record(cfg.traffic, "config.traffic");
+  oneOf(traffic.assignment, ["off", "all-or-nothing", "msa", "frank-wolfe"], "config.traffic.assignment");
+  int(traffic.maxIterations, "config.traffic.maxIterations", 0, MAX_TRAFFIC_ITERATIONS);
+  numbersLike(cfg.timeOfDay, defaultTimeOfDayConfig(), "config.timeOfDay");
+  const tod = record(cfg.timeOfDay, "config.timeOfDay");
+  num(tod.sliceMinutes, "config.timeOfDay.sliceMinutes", 5, 24 * 60);
+  num(tod.minDwellMin, "config.timeOfDay.minDwellMin", 0);
+  const acts = record(cfg.activities, "config.activities");
+  for (const t of PERSON_TYPES) {
+    const p = `config.activities.${t}`;
+    const spec = record(acts[t], p);
+    num(spec.share, `${p}.share`, 0);
+    list(spec.chains, `${p}.chains`).forEach((ch, i) => {
+      const chain = record(ch, `${p}.chains[${i}]`);
+      num(chain.weight, `${p}.chains[${i}].weight`, 0);
+      list(chain.activities, `${p}.chains[${i}].activities`)
+        .forEach((a, j) => oneOf(a, ACTIVITIES, `${p}.chains[${i}].activities[${j}]`));
+    });
+  }
+
+  const budget = record(s.budget, "budget");
+  num(budget.total, "budget.total");
+  list(budget.ledger, "budget.ledger").forEach((e, i) => {
+    const p = `budget.ledger[${i}]`;
+    const entry = record(e, p);
+    int(entry.id, `${p}.id`);
+    check(typeof entry.label === "string", `${p}.label`, "expected text");
+    num(entry.amount, `${p}.amount`);
+    int(entry.count, `${p}.count`, 1);
+  });
+  numbersLike(budget.costModel, defaultCostModel(), "budget.costModel");
+  numbersLike(budget.house, { houseBaseCost: 0, capExp: 0, floorExp: 0, hiRiseThreshold: 0, hiRisePenalty: 0 }, "budget.house");
+
+  return s as Scenario;
+}
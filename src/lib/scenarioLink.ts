@@ -0,0 +1,135 @@
+import { MAX_GRID_SIZE, keyOf, type BuildingKind, type RoadClass, type TransitLine } from "@/lib/sim";
+import { checkScenario, type Scenario, type ScenarioResult } from "@/lib/scenarioFile";
+
+// Scenarios travel in the URL hash as #s=<payload>: the world is packed
+// (run-length encoded cell layers, buildings as flat numbers), the rest kept
+// as is, and the JSON deflated and base64url encoded.
+const PREFIX = "#s=";
+
+// Codes are part of the link format: append new kinds and classes, never reorder
+const LINK_KINDS: BuildingKind[] = ["house", "work", "food", "school", "retail", "park", "healthcare", "mixed"];
+const ROAD_CODES: Record<RoadClass, string> = { local: "l", arterial: "a", highway: "h", path: "p" };
+const EMPTY = ".";
+const MARKED = "x";
+const BUILDING_FIELDS = 7;
+
+type LinkPayload = {
+  v: number;  // scenario file version the payload unpacks into
+  g: [rows: number, cols: number, cellSizeM: number];
+  r: string;  // roads, one code per cell in row-major order
+  w: string;  // walkways
+  k: string;  // bike lanes
+  b: number[];  // BUILDING_FIELDS numbers per building
+  t: TransitLine[];
+  c: Scenario["config"];
+  $: Scenario["budget"];
+};
+
+export function hasScenarioLink(hash: string) {
+  return hash.startsWith(PREFIX);
+}
+
+export async function encodeScenarioLink(s: Scenario) {
+  const w = s.world;
+  const cells = (code: (k: string) => string) => {
+    let out = "";
+    for (let r = 0; r < w.rows; r++) for (let c = 0; c < w.cols; c++) out += code(keyOf(r, c));
+    return runLengthEncode(out);
+  };
+  const walkways = new Set(w.walkways);
+  const bikeLanes = new Set(w.bikeLanes);
+  const payload: LinkPayload = {
+    v: s.version,
+    g: [w.rows, w.cols, w.cellSizeM],
+    r: cells((k) => (w.roads[k] ? ROAD_CODES[w.roads[k]] : EMPTY)),
+    w: cells((k) => (walkways.has(k) ? MARKED : EMPTY)),
+    k: cells((k) => (bikeLanes.has(k) ? MARKED : EMPTY)),
+    b: w.buildings.flatMap((b) => [LINK_KINDS.indexOf(b.kind), b.r, b.c, b.w, b.h, b.floors, b.baseCapacity]),
+    t: w.transitLines,
+    c: s.config,
+    $: s.budget,
+  };
+  return PREFIX + toBase64Url(await deflate(JSON.stringify(payload)));
+}
+
+export async function decodeScenarioLink(hash: string): Promise<ScenarioResult> {
+  let p: LinkPayload;
+  try {
+    p = JSON.parse(await inflate(fromBase64Url(hash.slice(PREFIX.length))));
+  } catch {
+    return { ok: false, error: "The link is incomplete or damaged." };
+  }
+  if (typeof p !== "object" || !p || !Array.isArray(p.g) || !Array.isArray(p.b)) {
+    return { ok: false, error: "The link does not contain a scenario." };
+  }
+  const [rows, cols, cellSizeM] = p.g;
+  const size = Math.min(rows, MAX_GRID_SIZE) * Math.min(cols, MAX_GRID_SIZE);
+  const roadClasses = Object.fromEntries(Object.entries(ROAD_CODES).map(([cls, code]) => [code, cls as RoadClass]));
+  const roads: Record<string, RoadClass> = {};
+  const walkways: string[] = [];
+  const bikeLanes: string[] = [];
+  const eachCell = (layer: unknown, visit: (code: string, k: string) => void) => {
+    const codes = typeof layer === "string" ? runLengthDecode(layer, size) : "";
+    for (let i = 0; i < codes.length; i++) {
+      if (codes[i] !== EMPTY) visit(codes[i], keyOf(Math.floor(i / cols), i % cols));
+    }
+  };
+  eachCell(p.r, (code, k) => (roads[k] = roadClasses[code] ?? code));
+  eachCell(p.w, (_, k) => walkways.push(k));
+  eachCell(p.k, (_, k) => bikeLanes.push(k));
+  const buildings = [];
+  for (let i = 0; i + BUILDING_FIELDS <= p.b.length; i += BUILDING_FIELDS) {
+    const [kind, r, c, w, h, floors, baseCapacity] = p.b.slice(i, i + BUILDING_FIELDS);
+    buildings.push({ kind: LINK_KINDS[kind], r, c, w, h, floors, baseCapacity });
+  }
+  // The unpacked file goes through the same migration and validation as a saved one
+  return checkScenario({
+    version: p.v,
+    world: { rows, cols, cellSizeM, roads, walkways, bikeLanes, transitLines: p.t, buildings },
+    config: p.c,
+    budget: p.$,
+  });
+}
+
+// "...xxxx" -> "3.4x"; codes are single non-digit characters
+function runLengthEncode(codes: string) {
+  let out = "";
+  for (let i = 0; i < codes.length; ) {
+    let j = i + 1;
+    while (j < codes.length && codes[j] === codes[i]) j++;
+    out += (j - i > 1 ? j - i : "") + codes[i];
+    i = j;
+  }
+  return out;
+}
+
+// Stops at maxLength so a tampered count cannot blow up memory
+function runLengthDecode(rle: string, maxLength: number) {
+  let out = "";
+  for (const [, n, code] of rle.matchAll(/(\d*)(\D)/g)) {
+    out += code.repeat(Math.max(0, Math.min(n ? parseInt(n) : 1, maxLength - out.length)));
+    if (out.length >= maxLength) break;
+  }
+  return out;
+}
+
+async function deflate(text: string) {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(bytes: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (ch) => ch.charCodeAt(0));
+}
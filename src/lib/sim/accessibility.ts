@@ -0,0 +1,61 @@
+import { activitySlots, createEntryFinder, footprintCenter, residentCapacity } from "./buildings";
+import type { NetworkCache } from "./routing";
+import type { Cell, SimConfig, World } from "./types";
+
+// Minutes from origin to every cell over one travel network. Cells off the
+// network take the time of the network cell they join it at; unreachable
+// cells are Infinity.
+export function travelMinutesFrom(world: Pick<World, "rows" | "cols">, network: NetworkCache, origin: Cell) {
+  const { rows, cols } = world;
+  const minutes = new Float64Array(rows * cols).fill(Infinity);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const route = network.route(origin, { r, c });
+      if (route) minutes[r * cols + c] = route.hours * 60;
+    }
+  }
+  return minutes;
+}
+
+export type HouseJobAccess = {
+  r: number;
+  c: number;
+  homes: number;  // resident capacity
+  jobs: number;  // job slots reachable within the time limit
+};
+
+export type JobAccess = {
+  houses: HouseJobAccess[];
+  totalJobs: number;
+  avgJobsPerHome: number;  // houses weighted by their homes
+};
+
+// Job slots each house reaches within `minutes`, door to door between the
+// same road-side entry cells the simulation routes trips between
+export function jobsWithin(
+  world: World,
+  network: NetworkCache,
+  minutes: number,
+  provisioning: Pick<SimConfig, "jobsPerWorkplace" | "mealsPerFoodPlace">
+): JobAccess {
+  const entryOf = createEntryFinder(world);
+  const works = world.buildings
+    .map((b) => ({ b, jobs: activitySlots(b, "work", provisioning) }))
+    .filter((w) => w.jobs > 0);
+  const houses = world.buildings
+    .filter((b) => residentCapacity(b) > 0)
+    .map((h): HouseJobAccess => {
+      let jobs = 0;
+      for (const w of works) {
+        const route = network.route(entryOf(h, footprintCenter(w.b)), entryOf(w.b, footprintCenter(h)));
+        if (route && route.hours * 60 <= minutes) jobs += w.jobs;
+      }
+      return { r: h.r, c: h.c, homes: residentCapacity(h), jobs };
+    });
+  const homes = houses.reduce((s, h) => s + h.homes, 0);
+  return {
+    houses,
+    totalJobs: works.reduce((s, w) => s + w.jobs, 0),
+    avgJobsPerHome: houses.reduce((s, h) => s + h.homes * h.jobs, 0) / Math.max(homes, 1),
+  };
+}
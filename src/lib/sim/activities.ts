@@ -0,0 +1,81 @@
+import type { Rng } from "./rng";
+
+export type PersonType = "worker" | "student" | "retiree" | "remote";
+export const PERSON_TYPES: PersonType[] = ["worker", "student", "retiree", "remote"];
+
+// Out-of-home activities; every day starts and ends at home. Which
+// buildings host each one is set by the building kind registry.
+export type Activity = "work" | "school" | "food" | "shop" | "leisure" | "health";
+export const ACTIVITIES: Activity[] = ["work", "school", "food", "shop", "leisure", "health"];
+
+// One possible day: the stops visited in order. No stops = a day at home.
+export type TripChain = { activities: Activity[]; weight: number };
+
+export type PersonTypeSpec = {
+  share: number;  // relative share of the population
+  chains: TripChain[];  // drawn in proportion to weight
+};
+
+export type ActivityConfig = Record<PersonType, PersonTypeSpec>;
+
+export function defaultActivityConfig(): ActivityConfig {
+  return {
+    worker: {
+      share: 0.55,
+      chains: [
+        { activities: ["work", "food"], weight: 0.5 },
+        { activities: ["work"], weight: 0.3 },
+        { activities: ["work", "shop"], weight: 0.1 },
+        { activities: ["food"], weight: 0.1 },
+      ],
+    },
+    student: {
+      share: 0.15,
+      chains: [
+        { activities: ["school"], weight: 0.7 },
+        { activities: ["school", "food"], weight: 0.2 },
+        { activities: ["leisure"], weight: 0.1 },
+      ],
+    },
+    retiree: {
+      share: 0.2,
+      chains: [
+        { activities: ["food"], weight: 0.3 },
+        { activities: ["shop"], weight: 0.2 },
+        { activities: ["health"], weight: 0.1 },
+        { activities: ["leisure"], weight: 0.1 },
+        { activities: [], weight: 0.3 },
+      ],
+    },
+    remote: {
+      share: 0.1,
+      chains: [
+        { activities: ["food"], weight: 0.3 },
+        { activities: ["work", "food"], weight: 0.3 },
+        { activities: ["leisure"], weight: 0.1 },
+        { activities: [], weight: 0.3 },
+      ],
+    },
+  };
+}
+
+// Index drawn in proportion to non-negative weights; null when all are zero
+function sampleWeighted(weights: number[], rng: Rng): number | null {
+  const total = weights.reduce((s, w) => s + Math.max(w, 0), 0);
+  if (total <= 0) return null;
+  let u = rng() * total;
+  for (let i = 0; i < weights.length; i++) {
+    u -= Math.max(weights[i], 0);
+    if (u < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+// Person type and the day's chain for one resident. With no positive
+// shares everyone is a worker; a type without chains stays home.
+export function drawSchedule(cfg: ActivityConfig, rng: Rng): { type: PersonType; activities: Activity[] } {
+  const type = PERSON_TYPES[sampleWeighted(PERSON_TYPES.map((t) => cfg[t].share), rng) ?? 0];
+  const { chains } = cfg[type];
+  const chain = sampleWeighted(chains.map((c) => c.weight), rng);
+  return { type, activities: chain === null ? [] : chains[chain].activities };
+}
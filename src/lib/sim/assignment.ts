@@ -0,0 +1,139 @@
+import type { DestinationChooser } from "./destination";
+import { shuffle, type Rng } from "./rng";
+import type { Building } from "./types";
+
+// none: ignore capacity; greedy: people in random order take their preferred
+// destination that still has room; transport: minimum total distance subject
+// to capacity (min-cost transportation problem)
+export type CapacityMode = "none" | "greedy" | "transport";
+
+// Costs in meters; overflowing a destination beats having no route at all
+const OVERFLOW_COST = 1e7;
+const UNREACHABLE_COST = 1e9;
+
+// Min-cost transportation by successive shortest paths. Returns flow[i][j],
+// the units sent from origin i to destination j. Destinations accept more
+// than their capacity only at OVERFLOW_COST per unit.
+export function solveTransportation(supply: number[], capacity: number[], cost: number[][]): number[][] {
+  const H = supply.length, W = capacity.length;
+  const S = 0, T = H + W + 1, N = H + W + 2;
+  const to: number[] = [], cap: number[] = [], cst: number[] = [], next: number[] = [];
+  const head = new Array<number>(N).fill(-1);
+  const addEdge = (u: number, v: number, c: number, w: number) => {
+    to.push(v); cap.push(c); cst.push(w); next.push(head[u]); head[u] = to.length - 1;
+    to.push(u); cap.push(0); cst.push(-w); next.push(head[v]); head[v] = to.length - 1;
+  };
+  for (let i = 0; i < H; i++) addEdge(S, 1 + i, supply[i], 0);
+  const pairEdge: number[][] = [];
+  for (let i = 0; i < H; i++) {
+    pairEdge.push([]);
+    for (let j = 0; j < W; j++) {
+      pairEdge[i].push(to.length);
+      addEdge(1 + i, 1 + H + j, Infinity, cost[i][j]);
+    }
+  }
+  for (let j = 0; j < W; j++) {
+    addEdge(1 + H + j, T, Math.max(capacity[j], 0), 0);
+    addEdge(1 + H + j, T, Infinity, OVERFLOW_COST);
+  }
+
+  // Bellman-Ford with a queue (SPFA): residual costs can be negative
+  const dist = new Float64Array(N);
+  const prevEdge = new Int32Array(N);
+  const inQueue = new Uint8Array(N);
+  for (;;) {
+    dist.fill(Infinity);
+    prevEdge.fill(-1);
+    dist[S] = 0;
+    const queue = [S];
+    inQueue[S] = 1;
+    for (let qi = 0; qi < queue.length; qi++) {
+      const u = queue[qi];
+      inQueue[u] = 0;
+      for (let e = head[u]; e !== -1; e = next[e]) {
+        if (cap[e] <= 0) continue;
+        const d = dist[u] + cst[e];
+        if (d < dist[to[e]] - 1e-9) {
+          dist[to[e]] = d;
+          prevEdge[to[e]] = e;
+          if (!inQueue[to[e]]) {
+            inQueue[to[e]] = 1;
+            queue.push(to[e]);
+          }
+        }
+      }
+    }
+    if (dist[T] === Infinity) break;
+    let push = Infinity;
+    for (let v = T; v !== S; v = to[prevEdge[v] ^ 1]) push = Math.min(push, cap[prevEdge[v]]);
+    for (let v = T; v !== S; v = to[prevEdge[v] ^ 1]) {
+      cap[prevEdge[v]] -= push;
+      cap[prevEdge[v] ^ 1] += push;
+    }
+  }
+
+  // Flow on i→j is what accumulated on the reverse edge
+  return pairEdge.map((row) => row.map((e) => cap[e ^ 1]));
+}
+
+export type Assignment = {
+  picks: number[];  // destination index per trip maker
+  load: number[];   // trip makers per destination
+};
+
+export function assignDestinations(
+  origins: Building[],  // one per trip maker
+  candidates: Building[],
+  capacity: number[],
+  mode: CapacityMode,
+  chooser: DestinationChooser,
+  distanceM: (a: Building, b: Building) => number | null,
+  rng: Rng
+): Assignment {
+  const picks = new Array<number>(origins.length).fill(0);
+  const load = new Array<number>(candidates.length).fill(0);
+
+  if (mode === "transport") {
+    // Trip makers at the same origin building are interchangeable
+    const groups = new Map<Building, number[]>();
+    origins.forEach((o, i) => {
+      const g = groups.get(o);
+      if (g) g.push(i);
+      else groups.set(o, [i]);
+    });
+    const groupOrigins = [...groups.keys()];
+    const cost = groupOrigins.map((o) => candidates.map((d) => distanceM(o, d) ?? UNREACHABLE_COST));
+    const flow = solveTransportation(
+      groupOrigins.map((o) => groups.get(o)!.length),
+      capacity,
+      cost
+    );
+    groupOrigins.forEach((o, gi) => {
+      const members = groups.get(o)!;
+      let k = 0;
+      flow[gi].forEach((units, j) => {
+        for (let u = 0; u < units; u++) picks[members[k++]] = j;
+        load[j] += units;
+      });
+    });
+    return { picks, load };
+  }
+
+  if (mode === "greedy") {
+    const open = capacity.map((c) => c > 0);
+    const order = shuffle(rng, origins.map((_, i) => i));
+    for (const i of order) {
+      const j = chooser.choose(origins[i], rng, open);
+      picks[i] = j;
+      if (++load[j] >= capacity[j]) open[j] = false;
+    }
+    return { picks, load };
+  }
+
+  origins.forEach((o, i) => {
+    const j = chooser.choose(o, rng);
+    picks[i] = j;
+    load[j]++;
+  });
+  return { picks, load };
+}
@@ -0,0 +1,130 @@
+import type { Activity } from "./activities";
+import { keyOf } from "./grid";
+import type { Building, BuildingKind, Cell, SimConfig, World } from "./types";
+
+// Slots a building offers for an activity: a fixed number per footprint
+// cell set in SimConfig, or a number per capacity unit (floors × base
+// capacity × footprint area), optionally counting the ground floor only
+export type SlotRule =
+  | { per: "building"; setting: "jobsPerWorkplace" | "mealsPerFoodPlace" }
+  | { per: "unit"; slots: number }
+  | { per: "groundUnit"; slots: number };
+
+export type BuildingKindSpec = {
+  label: string;
+  glyph: string;  // drawn on the cell
+  color: string;  // CSS colour
+  // Housing units: on every floor, on floors above the ground floor, or none
+  residents: "all" | "upper" | "none";
+  attracts: Partial<Record<Activity, SlotRule>>;
+  costFactor: number;  // default construction cost as a multiple of the house cost formula
+  maintenanceRate: number;  // default yearly upkeep as a share of construction cost
+};
+
+export const BUILDING_KINDS: Record<BuildingKind, BuildingKindSpec> = {
+  house: { label: "House", glyph: "H", color: "#059669", residents: "all", attracts: {}, costFactor: 1, maintenanceRate: 0.01 },
+  work: {
+    label: "Workplace", glyph: "W", color: "#2563eb", residents: "none",
+    attracts: { work: { per: "building", setting: "jobsPerWorkplace" } },
+    costFactor: 0.3, maintenanceRate: 0.01,
+  },
+  food: {
+    label: "Food place", glyph: "F", color: "#d97706", residents: "none",
+    attracts: { food: { per: "building", setting: "mealsPerFoodPlace" } },
+    costFactor: 0.3, maintenanceRate: 0.02,
+  },
+  school: {
+    label: "School", glyph: "S", color: "#7c3aed", residents: "none",
+    attracts: { school: { per: "unit", slots: 8 }, work: { per: "unit", slots: 0.5 } },
+    costFactor: 0.6, maintenanceRate: 0.02,
+  },
+  retail: {
+    label: "Shop", glyph: "R", color: "#db2777", residents: "none",
+    attracts: { shop: { per: "unit", slots: 10 }, work: { per: "unit", slots: 0.5 } },
+    costFactor: 0.5, maintenanceRate: 0.02,
+  },
+  park: {
+    label: "Park", glyph: "P", color: "#16a34a", residents: "none",
+    attracts: { leisure: { per: "unit", slots: 20 } },
+    costFactor: 0.1, maintenanceRate: 0.05,
+  },
+  healthcare: {
+    label: "Clinic", glyph: "+", color: "#dc2626", residents: "none",
+    attracts: { health: { per: "unit", slots: 4 }, work: { per: "unit", slots: 1 } },
+    costFactor: 1, maintenanceRate: 0.03,
+  },
+  mixed: {
+    label: "Mixed-use", glyph: "M", color: "#0d9488", residents: "upper",
+    attracts: {
+      food: { per: "groundUnit", slots: 4 },
+      shop: { per: "groundUnit", slots: 6 },
+      work: { per: "groundUnit", slots: 1 },
+    },
+    costFactor: 1.2, maintenanceRate: 0.015,
+  },
+};
+
+export const BUILDING_KIND_ORDER: BuildingKind[] = [
+  "house", "mixed", "work", "food", "retail", "school", "healthcare", "park",
+];
+
+export const footprintArea = (b: Building) => b.w * b.h;
+
+export function footprintCells(b: Building): Cell[] {
+  const cells: Cell[] = [];
+  for (let r = b.r; r < b.r + b.h; r++) for (let c = b.c; c < b.c + b.w; c++) cells.push({ r, c });
+  return cells;
+}
+
+export function coversCell(b: Building, r: number, c: number) {
+  return r >= b.r && r < b.r + b.h && c >= b.c && c < b.c + b.w;
+}
+
+// Floors × base capacity over the whole footprint
+export const capacityUnits = (b: Building) => b.floors * b.baseCapacity * footprintArea(b);
+
+export function residentCapacity(b: Building) {
+  const { residents } = BUILDING_KINDS[b.kind];
+  if (residents === "all") return capacityUnits(b);
+  if (residents === "upper") return Math.max(0, b.floors - 1) * b.baseCapacity * footprintArea(b);
+  return 0;
+}
+
+// At least one slot when the kind attracts the activity, zero otherwise
+export function activitySlots(
+  b: Building,
+  activity: Activity,
+  cfg: Pick<SimConfig, "jobsPerWorkplace" | "mealsPerFoodPlace">
+) {
+  const rule = BUILDING_KINDS[b.kind].attracts[activity];
+  if (!rule) return 0;
+  if (rule.per === "building") return Math.max(1, cfg[rule.setting]) * footprintArea(b);
+  const units = rule.per === "unit" ? capacityUnits(b) : b.baseCapacity * footprintArea(b);
+  return Math.max(1, Math.round(units * rule.slots));
+}
+
+export type EntryFinder = (b: Building, toward: Cell) => Cell;
+
+// Where trips enter and leave a building: the footprint cell next to a road
+// that is nearest to the other end of the trip. Footprints without road
+// access use their cell nearest to it.
+export function createEntryFinder(world: Pick<World, "roads">): EntryFinder {
+  const cache = new Map<Building, Cell[]>();
+  const dist = (a: Cell, b: Cell) => Math.abs(a.r - b.r) + Math.abs(a.c - b.c);
+  return (b, toward) => {
+    if (b.w === 1 && b.h === 1) return b;
+    let candidates = cache.get(b);
+    if (!candidates) {
+      const cells = footprintCells(b);
+      const onRoad = cells.filter(({ r, c }) =>
+        [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]].some(([rr, cc]) => world.roads.has(keyOf(rr, cc)))
+      );
+      candidates = onRoad.length ? onRoad : cells;
+      cache.set(b, candidates);
+    }
+    return candidates.reduce((best, cell) => (dist(cell, toward) < dist(best, toward) ? cell : best));
+  };
+}
+
+// Middle of the footprint, for picking the entry that faces another building
+export const footprintCenter = (b: Building): Cell => ({ r: b.r + (b.h - 1) / 2, c: b.c + (b.w - 1) / 2 });
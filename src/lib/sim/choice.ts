@@ -0,0 +1,103 @@
+import { randNormal, type Rng } from "./rng";
+import type { SimConfig, TripMode } from "./types";
+
+// `meters` is the main-mode distance; transit access/egress walking is `accessM`
+export type Leg = { mode: TripMode; meters: number; accessM: number; hours: number; waitH: number; emissionsKg: number };
+
+// Every mode that can make a given leg
+export type LegOptions = Partial<Record<TripMode, Leg>>;
+
+export const TRIP_MODES: TripMode[] = ["walk", "bike", "transit", "drive"];
+
+export type ModeCost = {
+  perKm: number;    // $ per km of main-mode distance (fuel, wear)
+  fixed: number;    // $ per trip (parking, fares)
+  comfort: number;  // $-equivalent discomfort per trip
+};
+
+export type LogitConfig = {
+  valueOfTimePerH: number;  // $ per hour
+  scale: number;            // utility per $ of generalized cost
+  tasteSd: number;          // log-sd of each person's value-of-time multiplier
+  costs: Record<TripMode, ModeCost>;
+};
+
+export function defaultLogitConfig(): LogitConfig {
+  return {
+    valueOfTimePerH: 15,
+    scale: 0.5,
+    tasteSd: 0.3,
+    costs: {
+      walk: { perKm: 0, fixed: 0, comfort: 0 },
+      bike: { perKm: 0, fixed: 0, comfort: 1 },
+      transit: { perKm: 0, fixed: 2.5, comfort: 1 },
+      drive: { perKm: 0.25, fixed: 3, comfort: 0 },
+    },
+  };
+}
+
+// Hard rules: walk within walkMaxM, cycle when the ride takes no longer than
+// bikeMaxM at bikeSpeed (so bike lanes stretch the range), ride transit when it
+// is not much slower than driving, and drive otherwise
+export function chooseByThreshold(o: LegOptions, cfg: SimConfig): Leg | null {
+  if (o.walk && o.walk.meters <= cfg.walkMaxM) return o.walk;
+  const bikeComfortH = (cfg.bikeMaxM / 1000) / Math.max(cfg.bikeSpeed, 1e-6);
+  if (o.bike && o.bike.hours <= bikeComfortH) return o.bike;
+  if (o.transit && (!o.drive || o.transit.hours <= o.drive.hours * cfg.transitMaxTimeRatio)) return o.transit;
+  // No drivable route: a long ride or walk still beats not arriving
+  return o.drive ?? o.bike ?? o.walk ?? null;
+}
+
+// Generalized cost in $: time at the person's value of time plus money and comfort
+export function generalizedCost(leg: Leg, logit: LogitConfig, votMultiplier = 1, carCostFactor = 1) {
+  const c = logit.costs[leg.mode];
+  const money = (leg.meters / 1000) * c.perKm + c.fixed;
+  return (
+    leg.hours * logit.valueOfTimePerH * votMultiplier +
+    (leg.mode === "drive" ? money * carCostFactor : money) +
+    c.comfort
+  );
+}
+
+// Multinomial logit probabilities over the available modes
+export function logitProbabilities(
+  o: LegOptions,
+  logit: LogitConfig,
+  votMultiplier = 1,
+  carCostFactor = 1
+): Partial<Record<TripMode, number>> {
+  const utils: [TripMode, number][] = [];
+  for (const mode of TRIP_MODES) {
+    const leg = o[mode];
+    if (leg) utils.push([mode, -logit.scale * generalizedCost(leg, logit, votMultiplier, carCostFactor)]);
+  }
+  const max = Math.max(...utils.map(([, u]) => u));
+  let sum = 0;
+  const probs: Partial<Record<TripMode, number>> = {};
+  for (const [mode, u] of utils) {
+    const e = Math.exp(u - max);
+    probs[mode] = e;
+    sum += e;
+  }
+  for (const mode of TRIP_MODES) if (probs[mode] !== undefined) probs[mode]! /= sum;
+  return probs;
+}
+
+export function sampleMode(probs: Partial<Record<TripMode, number>>, rng: Rng): TripMode | null {
+  let u = rng();
+  let last: TripMode | null = null;
+  for (const mode of TRIP_MODES) {
+    const p = probs[mode];
+    if (p === undefined) continue;
+    last = mode;
+    if (u < p) return mode;
+    u -= p;
+  }
+  return last;
+}
+
+// Lognormal multiplier with median 1
+export function tasteMultiplier(rng: Rng, sd: number) {
+  if (sd <= 0) return 1;
+  return Math.exp(sd * randNormal(rng));
+}
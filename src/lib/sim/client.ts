@@ -0,0 +1,77 @@
+// Browser-only wrapper around worker.ts; kept out of the engine's index so the
+// engine stays importable from Node.
+import type { WorkerRequest, WorkerResponse } from "./worker";
+import type { SimConfig, SimProgress, SimResult, World } from "./types";
+
+export type SimulationHandle = {
+  result: Promise<SimResult | null>;  // null when cancelled
+  cancel(): void;
+};
+
+export type SimulationWorker = {
+  run(world: World, cfg: SimConfig, onProgress?: (p: SimProgress) => void): SimulationHandle;
+  dispose(): void;
+};
+
+export function createSimulationWorker(): SimulationWorker {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  let active: { id: number; settle: (r: SimResult | null) => void } | null = null;
+
+  const spawn = () => {
+    const w = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+    w.onerror = (e) => {
+      e.preventDefault();
+      kill();
+      active?.settle({ ok: false, error: `Simulation failed: ${e.message || "worker error"}` });
+      active = null;
+    };
+    return w;
+  };
+
+  // A synchronous run can only be interrupted by terminating its worker
+  const kill = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  return {
+    run(world, cfg, onProgress) {
+      // Only one run at a time: starting a new one cancels the previous
+      if (active) {
+        kill();
+        active.settle(null);
+      }
+      const id = ++nextId;
+      const w = (worker ??= spawn());
+      const result = new Promise<SimResult | null>((settle) => {
+        active = { id, settle };
+      });
+      w.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const msg = e.data;
+        if (msg.id !== active?.id) return;
+        if (msg.type === "progress") onProgress?.(msg.progress);
+        else {
+          active.settle(msg.result);
+          active = null;
+        }
+      };
+      const req: WorkerRequest = { type: "run", id, world, cfg };
+      w.postMessage(req);
+      return {
+        result,
+        cancel() {
+          if (active?.id !== id) return;
+          kill();
+          active.settle(null);
+          active = null;
+        },
+      };
+    },
+    dispose() {
+      kill();
+      active?.settle(null);
+      active = null;
+    },
+  };
+}
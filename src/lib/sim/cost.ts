@@ -0,0 +1,90 @@
+import { activitySlots, BUILDING_KIND_ORDER, BUILDING_KINDS, footprintArea, footprintCells } from "./buildings";
+import type { Building, BuildingKind, RoadClass, SimConfig, World } from "./types";
+
+export type HouseCostParams = {
+  houseBaseCost: number;
+  capExp: number;
+  floorExp: number;
+  hiRiseThreshold: number;
+  hiRisePenalty: number;
+};
+
+export function houseCost(fl: number, cap: number, p: HouseCostParams) {
+  const penalty = fl > p.hiRiseThreshold ? p.hiRisePenalty * Math.pow(fl - p.hiRiseThreshold, 2) : 0;
+  return Math.round(p.houseBaseCost * Math.pow(cap, p.capExp) * Math.pow(fl, p.floorExp) + penalty);
+}
+
+// Construction, upkeep and tax parameters for everything that can be built
+export type CostModel = {
+  roadBuildPerCell: Record<RoadClass, number>;
+  roadMaintenancePerCell: Record<RoadClass, number>;  // per year
+  buildingCostFactor: Record<BuildingKind, number>;  // × house cost formula, per footprint cell
+  buildingMaintenanceRate: Record<BuildingKind, number>;  // share of construction cost per year
+  landValuePerCell: number;  // at the map corners
+  landValueCenterPremium: number;  // extra multiple of that at the map centre
+  taxPerJobPerYear: number;
+};
+
+export function defaultCostModel(): CostModel {
+  const byKind = <T>(f: (k: BuildingKind) => T) =>
+    Object.fromEntries(BUILDING_KIND_ORDER.map((k) => [k, f(k)])) as Record<BuildingKind, T>;
+  return {
+    roadBuildPerCell: { local: 5_000, arterial: 12_000, highway: 30_000, path: 2_000 },
+    roadMaintenancePerCell: { local: 200, arterial: 500, highway: 1_200, path: 50 },
+    buildingCostFactor: byKind((k) => BUILDING_KINDS[k].costFactor),
+    buildingMaintenanceRate: byKind((k) => BUILDING_KINDS[k].maintenanceRate),
+    landValuePerCell: 2_000,
+    landValueCenterPremium: 2,
+    taxPerJobPerYear: 25_000,
+  };
+}
+
+type GridSize = { rows: number; cols: number };
+
+// Land is dearest at the centre of the map and falls off linearly to the corners
+export function landValue(grid: GridSize, r: number, c: number, m: CostModel) {
+  const cr = (grid.rows - 1) / 2, cc = (grid.cols - 1) / 2;
+  const far = Math.hypot(cr, cc) || 1;
+  const closeness = 1 - Math.min(1, Math.hypot(r - cr, c - cc) / far);
+  return m.landValuePerCell * (1 + m.landValueCenterPremium * closeness);
+}
+
+export function roadCost(grid: GridSize, cls: RoadClass, r: number, c: number, m: CostModel) {
+  return Math.round(m.roadBuildPerCell[cls] + landValue(grid, r, c, m));
+}
+
+export function buildingCost(grid: GridSize, b: Building, house: HouseCostParams, m: CostModel) {
+  const land = footprintCells(b).reduce((s, p) => s + landValue(grid, p.r, p.c, m), 0);
+  return Math.round(m.buildingCostFactor[b.kind] * houseCost(b.floors, b.baseCapacity, house) * footprintArea(b) + land);
+}
+
+// Yearly running costs and job tax for the whole city
+export function annualOperations(
+  world: GridSize & Pick<World, "roads" | "buildings">,
+  house: HouseCostParams,
+  m: CostModel,
+  provisioning: Pick<SimConfig, "jobsPerWorkplace" | "mealsPerFoodPlace">
+) {
+  let maintenance = 0, jobs = 0;
+  world.roads.forEach((cls) => (maintenance += m.roadMaintenancePerCell[cls]));
+  for (const b of world.buildings) {
+    maintenance += m.buildingMaintenanceRate[b.kind] * buildingCost(world, b, house, m);
+    jobs += activitySlots(b, "work", provisioning);
+  }
+  const tax = jobs * m.taxPerJobPerYear;
+  return { maintenance: Math.round(maintenance), tax, jobs, net: Math.round(tax - maintenance) };
+}
+
+// One budget line; positive amounts are spending, negative ones refunds.
+// Repeated actions (e.g. a painted road stroke) fold into one line.
+export type LedgerEntry = { id: number; label: string; amount: number; count: number };
+
+export function addToLedger(ledger: LedgerEntry[], label: string, amount: number): LedgerEntry[] {
+  const last = ledger[ledger.length - 1];
+  if (last && last.label === label) {
+    return [...ledger.slice(0, -1), { ...last, amount: last.amount + amount, count: last.count + 1 }];
+  }
+  return [...ledger, { id: (last?.id ?? 0) + 1, label, amount, count: 1 }];
+}
+
+export const ledgerTotal = (ledger: LedgerEntry[]) => ledger.reduce((s, e) => s + e.amount, 0);
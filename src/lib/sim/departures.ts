@@ -0,0 +1,48 @@
+import type { Activity } from "./activities";
+import { randNormal, type Rng } from "./rng";
+
+// When legs leave: the morning commute to work or school, daytime trips
+// between stops (and non-commute outings), and the evening return home
+export type DeparturePeriod = "morning" | "midday" | "evening";
+export const DEPARTURE_PERIODS: DeparturePeriod[] = ["morning", "midday", "evening"];
+
+export type DepartureWindow = { meanHour: number; sdHour: number };
+
+export type TimeOfDayConfig = {
+  sliceMinutes: number;  // the day is reported and assigned in slices this long
+  departures: Record<DeparturePeriod, DepartureWindow>;
+  minDwellMin: number;  // least time spent at a stop before leaving it
+};
+
+export function defaultTimeOfDayConfig(): TimeOfDayConfig {
+  return {
+    sliceMinutes: 60,
+    departures: {
+      morning: { meanHour: 8, sdHour: 0.75 },
+      midday: { meanHour: 12.5, sdHour: 1.25 },
+      evening: { meanHour: 17.5, sdHour: 1 },
+    },
+    minDwellMin: 30,
+  };
+}
+
+// Leg i of a day with `stops` stops: i === stops is the trip home
+export function departurePeriod(i: number, stops: Activity[]): DeparturePeriod {
+  if (i === stops.length) return "evening";
+  if (i === 0 && (stops[0] === "work" || stops[0] === "school")) return "morning";
+  return "midday";
+}
+
+// Hours after midnight; never before `earliest` and always within the day
+export function sampleDeparture(window: DepartureWindow, earliest: number, rng: Rng) {
+  const t = window.meanHour + Math.max(window.sdHour, 0) * randNormal(rng);
+  return Math.min(Math.max(t, earliest, 0), 24 - 1e-9);
+}
+
+export function sliceCount(cfg: TimeOfDayConfig) {
+  return Math.ceil((24 * 60) / Math.max(cfg.sliceMinutes, 1));
+}
+
+export function sliceOf(hour: number, cfg: TimeOfDayConfig) {
+  return Math.min(Math.floor((hour * 60) / Math.max(cfg.sliceMinutes, 1)), sliceCount(cfg) - 1);
+}
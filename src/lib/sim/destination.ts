@@ -0,0 +1,99 @@
+import { capacityUnits } from "./buildings";
+import { randInt, type Rng } from "./rng";
+import type { Building } from "./types";
+
+export type DestinationModel = "random" | "gravity" | "nearest";
+
+export type DestinationChooser = {
+  // Index into the candidates; `open` restricts the pick to candidates with room
+  choose(origin: Building, rng: Rng, open?: boolean[]): number;
+};
+
+// Picks destinations among `candidates` for trips starting at an origin building.
+// gravity: weight ∝ capacity × exp(−decay × km); nearest: shortest distance;
+// random: uniform. Candidates the origin cannot reach get no weight, and an
+// origin that reaches none falls back to uniform.
+export function createDestinationChooser(
+  candidates: Building[],
+  model: DestinationModel,
+  decayPerKm: number,
+  distanceM: (a: Building, b: Building) => number | null
+): DestinationChooser {
+  // Distances and cumulative weights per origin cell
+  const cache = new Map<string, { dists: (number | null)[]; weights: number[]; cum: number[] | null }>();
+
+  const entryFor = (origin: Building) => {
+    const k = `${origin.r},${origin.c}`;
+    let entry = cache.get(k);
+    if (entry) return entry;
+    const dists = candidates.map((d) => distanceM(origin, d));
+    let weights: number[];
+    if (model === "nearest") {
+      let best = -1;
+      dists.forEach((d, i) => {
+        if (d !== null && (best < 0 || d < dists[best]!)) best = i;
+      });
+      weights = candidates.map((_, i) => (i === best ? 1 : 0));
+    } else {
+      weights = candidates.map((d, i) => {
+        const m = dists[i];
+        if (m === null) return 0;
+        return capacityUnits(d) * Math.exp(-Math.max(decayPerKm, 0) * (m / 1000));
+      });
+    }
+    let sum = 0;
+    const cum = weights.map((w) => (sum += w));
+    entry = { dists, weights, cum: sum > 0 ? cum : null };
+    cache.set(k, entry);
+    return entry;
+  };
+
+  const uniform = (rng: Rng, open?: boolean[]) => {
+    if (!open) return randInt(rng, candidates.length);
+    const idx = open.flatMap((o, i) => (o ? [i] : []));
+    return idx.length ? idx[randInt(rng, idx.length)] : randInt(rng, candidates.length);
+  };
+
+  const chooseOpen = (origin: Building, rng: Rng, open: boolean[]) => {
+    if (!open.some(Boolean)) return null;
+    if (model === "random") return uniform(rng, open);
+    const { dists, weights } = entryFor(origin);
+    if (model === "nearest") {
+      let best = -1;
+      dists.forEach((d, i) => {
+        if (open[i] && d !== null && (best < 0 || d < dists[best]!)) best = i;
+      });
+      return best >= 0 ? best : uniform(rng, open);
+    }
+    let sum = 0;
+    for (let i = 0; i < weights.length; i++) if (open[i]) sum += weights[i];
+    if (sum <= 0) return uniform(rng, open);
+    let u = rng() * sum;
+    for (let i = 0; i < weights.length; i++) {
+      if (!open[i]) continue;
+      if (u < weights[i]) return i;
+      u -= weights[i];
+    }
+    return uniform(rng, open);
+  };
+
+  return {
+    choose(origin, rng, open) {
+      if (open) {
+        const i = chooseOpen(origin, rng, open);
+        if (i !== null) return i;
+      }
+      if (model === "random") return uniform(rng);
+      const { cum } = entryFor(origin);
+      if (!cum) return uniform(rng);
+      const u = rng() * cum[cum.length - 1];
+      let lo = 0, hi = cum.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cum[mid] > u) hi = mid;
+        else lo = mid + 1;
+      }
+      return lo;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type { Cell } from "./types";
+
+// Rows and cols each; the editor renders one element per cell
+export const MIN_GRID_SIZE = 6;
+export const MAX_GRID_SIZE = 40;
+// Metres along one side of a cell
+export const MIN_CELL_SIZE_M = 10;
+export const MAX_CELL_SIZE_M = 200;
+
+export function keyOf(r: number, c: number) {
+  return `${r},${c}`;
+}
+
+export function manhattanPath(a: Cell, b: Cell): Cell[] {
+  const path: Cell[] = [];
+  const dr = a.r <= b.r ? 1 : -1;
+  for (let r = a.r; r !== b.r + dr; r += dr) path.push({ r, c: a.c });
+  const dc = a.c <= b.c ? 1 : -1;
+  for (let c = a.c; c !== b.c + dc; c += dc) path.push({ r: b.r, c });
+  return path;
+}
@@ -0,0 +1,55 @@
+import { residentCapacity } from "./buildings";
+import { shuffle, type Rng } from "./rng";
+import type { Building } from "./types";
+
+// proportional: every house fills to the same share of its capacity;
+// accessibility: houses with the best access to jobs fill first;
+// random: residents take randomly drawn free units
+export type HousingModel = "proportional" | "accessibility" | "random";
+
+// Residents per house. `accessibility` scores each house for the
+// accessibility model (higher fills first). Assumes total capacity ≥ population.
+export function allocateHousing(
+  houses: Building[],
+  population: number,
+  model: HousingModel,
+  rng: Rng,
+  accessibility?: (h: Building) => number
+): number[] {
+  const occupancy = houses.map(() => 0);
+
+  if (model === "random") {
+    const units = shuffle(rng, houses.flatMap((h, i) => Array<number>(residentCapacity(h)).fill(i)));
+    for (let k = 0; k < population && k < units.length; k++) occupancy[units[k]]++;
+    return occupancy;
+  }
+
+  if (model === "accessibility") {
+    const score = houses.map((h) => accessibility?.(h) ?? 0);
+    // Stable on ties so equally placed houses keep their order
+    const order = houses.map((_, i) => i).sort((a, b) => score[b] - score[a] || a - b);
+    let left = population;
+    for (const i of order) {
+      const take = Math.min(left, residentCapacity(houses[i]));
+      occupancy[i] = take;
+      left -= take;
+      if (left <= 0) break;
+    }
+    return occupancy;
+  }
+
+  // Largest remainder method, so shares stay within one resident of exact
+  const totalCap = houses.reduce((s, h) => s + residentCapacity(h), 0);
+  const exact = houses.map((h) => (population * residentCapacity(h)) / Math.max(totalCap, 1));
+  exact.forEach((x, i) => (occupancy[i] = Math.min(Math.floor(x), residentCapacity(houses[i]))));
+  let left = population - occupancy.reduce((s, n) => s + n, 0);
+  const byRemainder = exact.map((_, i) => i).sort((a, b) => (exact[b] % 1) - (exact[a] % 1) || a - b);
+  for (const i of byRemainder) {
+    if (left <= 0) break;
+    if (occupancy[i] < residentCapacity(houses[i])) {
+      occupancy[i]++;
+      left--;
+    }
+  }
+  return occupancy;
+}
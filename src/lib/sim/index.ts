@@ -0,0 +1,76 @@
+export * from "./types";
+export { MAX_CELL_SIZE_M, MAX_GRID_SIZE, MIN_CELL_SIZE_M, MIN_GRID_SIZE, keyOf, manhattanPath } from "./grid";
+export {
+  createHeap,
+  shortestPathLenCells,
+  distanceMeters,
+  createNetworkCache,
+  createRoadNetworks,
+  networkSpeeds,
+} from "./routing";
+export type { NetworkCache, NetworkConfig, RoadNetworks, RouteLen } from "./routing";
+export { ROAD_CLASSES, ROAD_CLASS_ORDER, defaultRoadSpeeds } from "./roads";
+export type { RoadClassSpec } from "./roads";
+export {
+  addToLedger,
+  annualOperations,
+  buildingCost,
+  defaultCostModel,
+  houseCost,
+  landValue,
+  ledgerTotal,
+  roadCost,
+} from "./cost";
+export type { CostModel, HouseCostParams, LedgerEntry } from "./cost";
+export { MAX_POPULATION, runSimulation } from "./simulate";
+export { agentPositionsAt } from "./playback";
+export type { AgentPosition } from "./playback";
+export { createDestinationChooser } from "./destination";
+export {
+  DEPARTURE_PERIODS,
+  defaultTimeOfDayConfig,
+  departurePeriod,
+  sampleDeparture,
+  sliceCount,
+  sliceOf,
+} from "./departures";
+export type { DeparturePeriod, DepartureWindow, TimeOfDayConfig } from "./departures";
+export { assignDestinations, solveTransportation } from "./assignment";
+export type { Assignment, CapacityMode } from "./assignment";
+export { allocateHousing } from "./housing";
+export { ACTIVITIES, PERSON_TYPES, defaultActivityConfig, drawSchedule } from "./activities";
+export {
+  BUILDING_KINDS,
+  BUILDING_KIND_ORDER,
+  activitySlots,
+  capacityUnits,
+  coversCell,
+  createEntryFinder,
+  footprintArea,
+  footprintCells,
+  footprintCenter,
+  residentCapacity,
+} from "./buildings";
+export type { BuildingKindSpec, EntryFinder, SlotRule } from "./buildings";
+export type { Activity, ActivityConfig, PersonType, PersonTypeSpec, TripChain } from "./activities";
+export type { HousingModel } from "./housing";
+export type { DestinationChooser, DestinationModel } from "./destination";
+export {
+  TRIP_MODES,
+  chooseByThreshold,
+  defaultLogitConfig,
+  generalizedCost,
+  logitProbabilities,
+} from "./choice";
+export type { Leg, LegOptions, LogitConfig, ModeCost } from "./choice";
+export { jobsWithin, travelMinutesFrom } from "./accessibility";
+export type { HouseJobAccess, JobAccess } from "./accessibility";
+export { MAX_TRAFFIC_ITERATIONS, assignTraffic, bprHours, defaultTrafficConfig } from "./traffic";
+export type { TrafficAssignment, TrafficConfig, TrafficDemand, TrafficResult } from "./traffic";
+export { createTransitRouter } from "./transit";
+export type { TransitRouter, TransitTrip } from "./transit";
+export { MAX_SEED, createRng, randInt, randNormal, shuffle, randomSeed } from "./rng";
+export type { Rng } from "./rng";
+export { generateDefaultCity } from "./scenario";
+export type { CityLayout } from "./scenario";
+export type { RunOptions } from "./simulate";
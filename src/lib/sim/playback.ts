@@ -0,0 +1,21 @@
+import type { AgentTrack, TripMode } from "./types";
+
+// In cell units: (0, 0) is the grid's top-left corner, cell centres sit at .5
+export type AgentPosition = { x: number; y: number; mode: TripMode };
+
+// Where each recorded agent on the move is at `hour`, walking its leg's path
+// cells at an even pace. Agents at home or at a stop are left out.
+export function agentPositionsAt(tracks: AgentTrack[], hour: number): AgentPosition[] {
+  const out: AgentPosition[] = [];
+  for (const t of tracks) {
+    const leg = t.legs.find((l) => hour >= l.depart_h && hour < l.arrive_h);
+    if (!leg) continue;
+    const steps = leg.path.length - 1;
+    const f = ((hour - leg.depart_h) / (leg.arrive_h - leg.depart_h)) * steps;
+    const i = Math.min(Math.floor(f), Math.max(steps - 1, 0));
+    const from = leg.path[i], to = leg.path[Math.min(i + 1, steps)];
+    const k = f - i;
+    out.push({ x: from.c + k * (to.c - from.c) + 0.5, y: from.r + k * (to.r - from.r) + 0.5, mode: leg.mode });
+  }
+  return out;
+}
@@ -0,0 +1,38 @@
+// Seedable PRNG so the same world + seed always reproduces the same numbers
+export type Rng = () => number;
+
+// mulberry32: small, fast and good enough for assigning trips
+// Seeds are read as unsigned 32-bit integers
+export const MAX_SEED = 2 ** 32 - 1;
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randInt(rng: Rng, n: number) {
+  return Math.floor(rng() * n);
+}
+
+// Standard normal draw (Box-Muller)
+export function randNormal(rng: Rng) {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+}
+
+export function shuffle<T>(rng: Rng, arr: T[]): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = randInt(rng, i + 1);
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 2 ** 31);
+}
@@ -0,0 +1,27 @@
+import type { RoadClass } from "./types";
+
+export type RoadClassSpec = {
+  label: string;
+  speedKmh: number;  // default speed limit for cars
+  walk: boolean;
+  bike: boolean;
+  drive: boolean;
+};
+
+export const ROAD_CLASSES: Record<RoadClass, RoadClassSpec> = {
+  local: { label: "Local street", speedKmh: 30, walk: true, bike: true, drive: true },
+  arterial: { label: "Arterial", speedKmh: 50, walk: true, bike: true, drive: true },
+  highway: { label: "Highway", speedKmh: 90, walk: false, bike: false, drive: true },
+  path: { label: "Pedestrian path", speedKmh: 0, walk: true, bike: true, drive: false },
+};
+
+export const ROAD_CLASS_ORDER: RoadClass[] = ["local", "arterial", "highway", "path"];
+
+export function defaultRoadSpeeds(): Record<RoadClass, number> {
+  return {
+    local: ROAD_CLASSES.local.speedKmh,
+    arterial: ROAD_CLASSES.arterial.speedKmh,
+    highway: ROAD_CLASSES.highway.speedKmh,
+    path: ROAD_CLASSES.path.speedKmh,
+  };
+}
@@ -0,0 +1,253 @@
+import { ROAD_CLASSES } from "./roads";
+import type { Cell, DistanceMode, RoadNetwork, SimConfig, TravelMode, World } from "./types";
+
+const UNKNOWN = -2;
+const NONE = -1;
+
+export type RouteLen = { cells: number; hours: number };
+
+// Fastest routes on one travel network, one Dijkstra per distinct origin cell.
+// Cells are addressed by integer index (r * cols + c) rather than "r,c" keys.
+export type NetworkCache = {
+  route(a: Cell, b: Cell): RouteLen | null;
+  // Index of the network cell a trip at p starts or ends on, null if none
+  snap(p: Cell): number | null;
+  // Cell indices the fastest route passes through, both ends included
+  path(a: Cell, b: Cell): number[] | null;
+};
+
+// Binary min-heap of cell indices keyed by priority
+export function createHeap() {
+  const items: number[] = [];
+  const keys: number[] = [];
+  const swap = (i: number, j: number) => {
+    [items[i], items[j]] = [items[j], items[i]];
+    [keys[i], keys[j]] = [keys[j], keys[i]];
+  };
+  return {
+    get size() {
+      return items.length;
+    },
+    push(item: number, key: number) {
+      items.push(item);
+      keys.push(key);
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (keys[parent] <= keys[i]) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    // Removes and returns the entry with the smallest key
+    pop(): { item: number; key: number } {
+      const top = { item: items[0], key: keys[0] };
+      const lastItem = items.pop()!, lastKey = keys.pop()!;
+      if (items.length) {
+        items[0] = lastItem;
+        keys[0] = lastKey;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1, r = l + 1;
+          let m = i;
+          if (l < items.length && keys[l] < keys[m]) m = l;
+          if (r < items.length && keys[r] < keys[m]) m = r;
+          if (m === i) break;
+          swap(i, m);
+          i = m;
+        }
+      }
+      return top;
+    },
+  };
+}
+
+// `speedKmh[i]` is the speed on cell i, 0 where the mode cannot travel.
+// Entering a cell costs cellSizeM at that cell's speed.
+export function createNetworkCache(
+  rows: number,
+  cols: number,
+  cellSizeM: number,
+  speedKmh: Float64Array
+): NetworkCache {
+  const n = rows * cols;
+  const km = cellSizeM / 1000;
+  const queue = new Int32Array(n);
+  const nearest = new Int32Array(n).fill(UNKNOWN);
+  const fromOrigin = new Map<number, { hours: Float64Array; cells: Int32Array; prev: Int32Array }>();
+
+  // Calls visit(j) for each in-bounds 4-neighbour j of cell i
+  const forEachNeighbor = (i: number, visit: (j: number) => void) => {
+    const r = (i / cols) | 0, c = i - r * cols;
+    if (r + 1 < rows) visit(i + cols);
+    if (r > 0) visit(i - cols);
+    if (c + 1 < cols) visit(i + 1);
+    if (c > 0) visit(i - 1);
+  };
+
+  const nearestOnNetwork = (start: number): number => {
+    if (nearest[start] !== UNKNOWN) return nearest[start];
+    let found = NONE;
+    if (speedKmh[start] > 0) found = start;
+    else {
+      const seen = new Uint8Array(n);
+      let head = 0, tail = 0;
+      queue[tail++] = start;
+      seen[start] = 1;
+      while (head < tail && found === NONE) {
+        forEachNeighbor(queue[head++], (j) => {
+          if (found !== NONE || seen[j]) return;
+          if (speedKmh[j] > 0) found = j;
+          seen[j] = 1;
+          queue[tail++] = j;
+        });
+      }
+    }
+    nearest[start] = found;
+    return found;
+  };
+
+  // Dijkstra on travel time from one origin to every reachable network cell
+  const treeFrom = (origin: number) => {
+    let tree = fromOrigin.get(origin);
+    if (tree) return tree;
+    const hours = new Float64Array(n).fill(Infinity);
+    const cells = new Int32Array(n).fill(NONE);
+    const prev = new Int32Array(n).fill(NONE);
+    hours[origin] = 0;
+    cells[origin] = 0;
+    const heap = createHeap();
+    heap.push(origin, 0);
+    while (heap.size) {
+      const { item: cur, key } = heap.pop();
+      if (key > hours[cur]) continue;
+      forEachNeighbor(cur, (j) => {
+        if (speedKmh[j] <= 0) return;
+        const h = key + km / speedKmh[j];
+        if (h >= hours[j]) return;
+        hours[j] = h;
+        cells[j] = cells[cur] + 1;
+        prev[j] = cur;
+        heap.push(j, h);
+      });
+    }
+    tree = { hours, cells, prev };
+    fromOrigin.set(origin, tree);
+    return tree;
+  };
+
+  const inBounds = (p: Cell) => p.r >= 0 && p.c >= 0 && p.r < rows && p.c < cols;
+  const ends = (a: Cell, b: Cell) => {
+    if (!inBounds(a) || !inBounds(b)) return null;
+    const s = nearestOnNetwork(a.r * cols + a.c);
+    const g = nearestOnNetwork(b.r * cols + b.c);
+    return s === NONE || g === NONE ? null : { s, g };
+  };
+
+  return {
+    route(a, b) {
+      const e = ends(a, b);
+      if (!e) return null;
+      if (e.s === e.g) return { cells: 0, hours: 0 };
+      const tree = treeFrom(e.s);
+      return tree.cells[e.g] === NONE ? null : { cells: tree.cells[e.g], hours: tree.hours[e.g] };
+    },
+    path(a, b) {
+      const e = ends(a, b);
+      if (!e) return null;
+      const tree = treeFrom(e.s);
+      if (tree.cells[e.g] === NONE) return null;
+      const cells = [e.g];
+      for (let i = e.g; i !== e.s; i = tree.prev[i]) cells.push(tree.prev[i]);
+      return cells.reverse();
+    },
+    snap(p) {
+      if (!inBounds(p)) return null;
+      const i = nearestOnNetwork(p.r * cols + p.c);
+      return i === NONE ? null : i;
+    },
+  };
+}
+
+export type NetworkConfig = Pick<SimConfig, "walkSpeed" | "bikeSpeed" | "bikeLaneSpeedKmh" | "roadSpeedsKmh">;
+
+// Per-cell speeds for one travel mode: walkers use walkable roads plus the
+// walkway layer, cyclists bikeable roads plus bike lanes (at lane speed),
+// drivers only drivable roads
+export function networkSpeeds(world: World, mode: TravelMode, cfg: NetworkConfig) {
+  const { rows, cols } = world;
+  const speeds = new Float64Array(rows * cols);
+  const walkSpeed = Math.max(cfg.walkSpeed, 1e-6);
+  const bikeSpeed = Math.max(cfg.bikeSpeed, 1e-6);
+  const indexOf = (k: string) => {
+    const [r, c] = k.split(",").map(Number);
+    return r < 0 || c < 0 || r >= rows || c >= cols ? -1 : r * cols + c;
+  };
+  for (const [k, cls] of world.roads) {
+    const i = indexOf(k);
+    if (i < 0) continue;
+    const spec = ROAD_CLASSES[cls];
+    if (!spec[mode]) continue;
+    speeds[i] = mode === "walk" ? walkSpeed : mode === "bike" ? bikeSpeed : cfg.roadSpeedsKmh[cls];
+  }
+  if (mode === "walk") {
+    for (const k of world.walkways) {
+      const i = indexOf(k);
+      if (i >= 0) speeds[i] = walkSpeed;
+    }
+  }
+  if (mode === "bike") {
+    for (const k of world.bikeLanes) {
+      const i = indexOf(k);
+      if (i >= 0) speeds[i] = Math.max(cfg.bikeLaneSpeedKmh, bikeSpeed);
+    }
+  }
+  return speeds;
+}
+
+export type RoadNetworks = Record<TravelMode, NetworkCache>;
+
+export function createRoadNetworks(world: World, cfg: NetworkConfig): RoadNetworks {
+  const { rows, cols, cellSizeM } = world;
+  return {
+    walk: createNetworkCache(rows, cols, cellSizeM, networkSpeeds(world, "walk", cfg)),
+    bike: createNetworkCache(rows, cols, cellSizeM, networkSpeeds(world, "bike", cfg)),
+    drive: createNetworkCache(rows, cols, cellSizeM, networkSpeeds(world, "drive", cfg)),
+  };
+}
+
+// Road length in cells ignoring road classes (every road cell counts the same)
+export function shortestPathLenCells(
+  rows: number,
+  cols: number,
+  roads: RoadNetwork,
+  start: Cell,
+  goal: Cell
+): number | null {
+  const speeds = new Float64Array(rows * cols);
+  for (const k of roads.keys()) {
+    const [r, c] = k.split(",").map(Number);
+    if (r >= 0 && c >= 0 && r < rows && c < cols) speeds[r * cols + c] = 1;
+  }
+  return createNetworkCache(rows, cols, 1, speeds).route(start, goal)?.cells ?? null;
+}
+
+export function distanceMeters(
+  world: World,
+  mode: DistanceMode,
+  a: Cell,
+  b: Cell,
+  network?: NetworkCache
+): number | null {
+  if (mode === "euclid") {
+    const dx = a.r - b.r, dy = a.c - b.c;
+    return Math.hypot(dx, dy) * world.cellSizeM;
+  }
+  if (mode === "manhattan") {
+    return (Math.abs(a.r - b.r) + Math.abs(a.c - b.c)) * world.cellSizeM;
+  }
+  const L = network
+    ? network.route(a, b)?.cells ?? null
+    : shortestPathLenCells(world.rows, world.cols, world.roads, a, b);
+  return L === null ? null : L * world.cellSizeM;
+}
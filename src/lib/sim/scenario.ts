@@ -0,0 +1,80 @@
+import { keyOf } from "./grid";
+import { shuffle, type Rng } from "./rng";
+import type { Building, BuildingKind, RoadNetwork, World } from "./types";
+
+export type CityLayout = Pick<World, "rows" | "cols" | "roads" | "walkways" | "bikeLanes" | "transitLines" | "buildings">;
+
+// Default city shown on first load: housing bottom-left, jobs top-right,
+// food and services scattered using the supplied rng
+export function generateDefaultCity(rng: Rng): CityLayout {
+  const rows = 25, cols = 30;
+  const houseCount = 117, workCount = 32, foodCount = 11;
+  const houseFloors = 3, houseBaseCap = 6;
+
+  // Build roads (auto grid every 3)
+  const rds: RoadNetwork = new Map();
+  for (let r = 0; r < rows; r++) if (r % 3 === 0) for (let c = 0; c < cols; c++) rds.set(keyOf(r, c), "local");
+  for (let c = 0; c < cols; c++) if (c % 3 === 0) for (let r = 0; r < rows; r++) rds.set(keyOf(r, c), "local");
+
+  const occupied = new Set<string>();
+  const B: Building[] = [];
+  const addIfFree = (kind: BuildingKind, r: number, c: number, fl: number, cap: number) => {
+    const k = keyOf(r, c);
+    if (rds.has(k) || occupied.has(k)) return false;
+    occupied.add(k);
+    B.push({ kind, r, c, w: 1, h: 1, floors: fl, baseCapacity: cap });
+    return true;
+  };
+
+  // Houses: bottom-left (avoid roads)
+  let placed = 0;
+  const houseRowStart = Math.floor(rows * 0.6);
+  const houseColEnd = Math.floor(cols * 0.4);
+  for (let r = rows - 1; r >= houseRowStart && placed < houseCount; r--) {
+    for (let c = houseColEnd - 1; c >= 0 && placed < houseCount; c--) {
+      if (addIfFree("house", r, c, houseFloors, houseBaseCap)) placed++;
+    }
+  }
+  // Fallback sweep if that region can’t fit all houses
+  for (let r = rows - 1; r >= 0 && placed < houseCount; r--) {
+    for (let c = cols - 1; c >= 0 && placed < houseCount; c--) {
+      if (addIfFree("house", r, c, houseFloors, houseBaseCap)) placed++;
+    }
+  }
+
+  // Workplaces: top-right (avoid roads)
+  placed = 0;
+  const workRowEnd = Math.floor(rows * 0.4);
+  const workColStart = Math.floor(cols * 0.6);
+  for (let r = 0; r < workRowEnd && placed < workCount; r++) {
+    for (let c = workColStart; c < cols && placed < workCount; c++) {
+      if (addIfFree("work", r, c, 1, 30)) placed++;
+    }
+  }
+  // Fallback sweep
+  for (let r = 0; r < rows && placed < workCount; r++) {
+    for (let c = 0; c < cols && placed < workCount; c++) {
+      if (addIfFree("work", r, c, 1, 30)) placed++;
+    }
+  }
+
+  // Food and services: random locations (avoid roads/occupied)
+  const all: string[] = [];
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) all.push(keyOf(r, c));
+  shuffle(rng, all);
+  const scatter = (kind: BuildingKind, count: number, fl: number, cap: number) => {
+    placed = 0;
+    for (const k of all) {
+      if (placed >= count) break;
+      const [rr, cc] = k.split(",").map(Number);
+      if (addIfFree(kind, rr, cc, fl, cap)) placed++;
+    }
+  };
+  scatter("food", foodCount, 1, 50);
+  scatter("school", 2, 2, 10);
+  scatter("retail", 3, 1, 20);
+  scatter("park", 2, 1, 20);
+  scatter("healthcare", 1, 2, 10);
+
+  return { rows, cols, roads: rds, walkways: new Set(), bikeLanes: new Set(), transitLines: [], buildings: B };
+}
@@ -0,0 +1,559 @@
+import { ACTIVITIES, drawSchedule, PERSON_TYPES, type Activity, type PersonType } from "./activities";
+import { assignDestinations } from "./assignment";
+import { activitySlots, createEntryFinder, footprintCenter, residentCapacity } from "./buildings";
+import { departurePeriod, sampleDeparture, sliceCount, sliceOf } from "./departures";
+import { createDestinationChooser } from "./destination";
+import { allocateHousing } from "./housing";
+import { createRng } from "./rng";
+import { createRoadNetworks, distanceMeters, networkSpeeds, type RoadNetworks } from "./routing";
+import { assignTraffic, type TrafficDemand } from "./traffic";
+import {
+  chooseByThreshold,
+  logitProbabilities,
+  sampleMode,
+  tasteMultiplier,
+  TRIP_MODES,
+  type Leg,
+  type LegOptions,
+} from "./choice";
+import { createTransitRouter, type TransitRouter } from "./transit";
+import type {
+  AgentLeg,
+  AgentTrack,
+  Building,
+  BuildingOverflow,
+  BuildingStats,
+  Cell,
+  CellTrips,
+  HouseOccupancy,
+  Person,
+  PersonTypeMetrics,
+  RoadLoad,
+  SimConfig,
+  SimProgress,
+  SimResult,
+  TimeSlice,
+  TrafficMetrics,
+  TravelMode,
+  TripMode,
+  World,
+} from "./types";
+
+export type RunOptions = {
+  // Reuse routes across runs on an unchanged road network
+  networks?: RoadNetworks;
+  onProgress?: (p: SimProgress) => void;
+  progressEvery?: number;  // people between progress reports
+  agentTracks?: number;  // most people whose day is recorded for playback
+};
+
+// Most people the editor lets a run simulate
+export const MAX_POPULATION = 10_000;
+
+const DEFAULT_AGENT_TRACKS = 1000;
+// Latest departure a pushed-back leg keeps: the start of the day's last minute
+const DAY_END_H = 24 - 1 / 60;
+
+// Routes the leg on every network and lists each mode that can make it
+function legOptions(
+  world: World,
+  cfg: SimConfig,
+  nets: RoadNetworks,
+  transit: TransitRouter,
+  a: Cell,
+  b: Cell
+): LegOptions {
+  const simple = (mode: TravelMode, meters: number, hours: number): Leg => {
+    const ePerKm = {
+      walk: cfg.walkEmissionsKgPerKm,
+      bike: cfg.bikeEmissionsKgPerKm,
+      drive: cfg.carEmissionsKgPerKm,
+    }[mode];
+    return { mode, meters, accessM: 0, hours, waitH: 0, emissionsKg: (meters / 1000) * ePerKm };
+  };
+  const options: LegOptions = {};
+  if (cfg.distanceMode !== "road") {
+    const d = distanceMeters(world, cfg.distanceMode, a, b);
+    if (d === null || !isFinite(d)) return options;
+    const hours = (speed: number) => (d / 1000) / Math.max(speed, 1e-6);
+    options.walk = simple("walk", d, hours(cfg.walkSpeed));
+    if (cfg.bikeMaxM > 0) options.bike = simple("bike", d, hours(cfg.bikeSpeed));
+    options.drive = simple("drive", d, hours(cfg.carSpeed));
+    return options;
+  }
+  const walk = nets.walk.route(a, b);
+  const bike = cfg.bikeMaxM > 0 ? nets.bike.route(a, b) : null;
+  const drive = nets.drive.route(a, b);
+  if (walk) options.walk = simple("walk", walk.cells * world.cellSizeM, walk.hours);
+  if (bike) options.bike = simple("bike", bike.cells * world.cellSizeM, bike.hours);
+  if (drive) options.drive = simple("drive", drive.cells * world.cellSizeM, drive.hours);
+  const trip = transit.route(a, b);
+  if (trip) {
+    options.transit = {
+      mode: "transit",
+      meters: trip.rideM,
+      accessM: trip.accessM,
+      hours: trip.hours,
+      waitH: trip.waitH,
+      emissionsKg: trip.emissionsKg + (trip.accessM / 1000) * cfg.walkEmissionsKgPerKm,
+    };
+  }
+  return options;
+}
+
+// Car cost multipliers the logit model reports expected shares for
+const CAR_COST_FACTORS = [0.5, 0.75, 1, 1.5, 2, 3];
+
+const emptyShares = (): Record<TripMode, number> => ({ walk: 0, bike: 0, transit: 0, drive: 0 });
+
+export function runSimulation(world: World, cfg: SimConfig, opts: RunOptions = {}): SimResult {
+  const { population } = cfg;
+  const houses = world.buildings.filter((b) => residentCapacity(b) > 0);
+  // Buildings hosting each activity and their slots, per the kind registry
+  const pools = ACTIVITIES.map((activity) => {
+    const candidates = world.buildings.filter((b) => activitySlots(b, activity, cfg) > 0);
+    return { activity, candidates, capacity: candidates.map((b) => activitySlots(b, activity, cfg)) };
+  });
+  const poolOf = Object.fromEntries(pools.map((p) => [p.activity, p])) as Record<Activity, (typeof pools)[number]>;
+  const works = poolOf.work.candidates;
+  const jobSlots = poolOf.work.capacity;
+
+  if (!houses.length) return { ok: false, error: "Place at least one house." };
+  if (!works.length) return { ok: false, error: "Place at least one workplace." };
+  if (!poolOf.food.candidates.length) return { ok: false, error: "Place at least one food place." };
+
+  // Capacity-aware housing
+  const totalCap = houses.reduce((s, h) => s + residentCapacity(h), 0);
+  if (totalCap < population) {
+    return {
+      ok: false,
+      error: `Not enough housing capacity (${totalCap}) for population (${population}). Raise floors, base capacity, or add houses.`,
+    };
+  }
+
+  // Workforce & food provisioning constraints
+  const jobsCapacityInside = jobSlots.reduce((s, n) => s + n, 0);
+  const seatsInside = poolOf.food.capacity.reduce((s, n) => s + n, 0);
+  if (jobsCapacityInside < population) {
+    return { ok: false, error: `Insufficient workplaces: ${jobsCapacityInside} jobs for ${population} residents.` };
+  }
+  if (seatsInside < population) {
+    return { ok: false, error: `Insufficient food places: ${seatsInside} seats for ${population} residents.` };
+  }
+  const livingPeople = population;
+  const travel_in  = Math.max(0, jobsCapacityInside - livingPeople);
+  const travel_out = Math.max(0, livingPeople - jobsCapacityInside);
+
+  // Create people
+  const people: Person[] = Array.from({ length: population }, (_, i) => ({ id: i }));
+
+  const nets = opts.networks ?? createRoadNetworks(world, cfg);
+  const rng = createRng(cfg.seed);
+  // Trips leave and enter each footprint at its road-side cell facing the other end
+  const entryOf = createEntryFinder(world);
+  const tripEnds = (a: Building, b: Building): [Cell, Cell] => [entryOf(a, footprintCenter(b)), entryOf(b, footprintCenter(a))];
+  const tripDistance = (a: Building, b: Building) => {
+    const [x, y] = tripEnds(a, b);
+    return distanceMeters(world, cfg.distanceMode, x, y, nets.drive) ?? distanceMeters(world, cfg.distanceMode, x, y, nets.walk);
+  };
+
+  // Housing: accessibility is the gravity-weighted count of reachable jobs
+  const jobAccess = (h: Building) =>
+    works.reduce((s, w, j) => {
+      const m = tripDistance(h, w);
+      return m === null ? s : s + jobSlots[j] * Math.exp(-Math.max(cfg.destinationDecayPerKm, 0) * (m / 1000));
+    }, 0);
+  const occupancy = allocateHousing(houses, population, cfg.housingModel, rng, jobAccess);
+  let next = 0;
+  houses.forEach((h, i) => {
+    for (let k = 0; k < occupancy[i]; k++) people[next++].house = h;
+  });
+  const housing: HouseOccupancy[] = houses.map((h, i) => ({
+    r: h.r,
+    c: h.c,
+    occupants: occupancy[i],
+    capacity: residentCapacity(h),
+  }));
+
+  // Person types and the day's trip chain, minus stops no building hosts
+  let unservedStops = 0;
+  people.forEach((p) => {
+    const { type, activities } = drawSchedule(cfg.activities, rng);
+    p.type = type;
+    p.activities = activities.filter((a) => poolOf[a].candidates.length > 0);
+    p.stops = [];
+    unservedStops += activities.length - p.activities.length;
+  });
+
+  // Destination choice stop by stop: the first stop from home, later ones
+  // from the previous stop, within each building's slots for the activity
+  // when capacity assignment is on
+  const choosers = pools.map((pool) =>
+    createDestinationChooser(pool.candidates, cfg.destinationModel, cfg.destinationDecayPerKm, tripDistance)
+  );
+  const loads = pools.map((pool) => pool.candidates.map(() => 0));
+  const maxStops = people.reduce((m, p) => Math.max(m, p.activities!.length), 0);
+  for (let k = 0; k < maxStops; k++) {
+    pools.forEach((pool, pi) => {
+      const travellers = people.filter(
+        (p) => p.activities!.length > k && p.activities![k] === pool.activity
+      );
+      if (!travellers.length) return;
+      const { picks, load } = assignDestinations(
+        travellers.map((p) => (k === 0 ? p.house! : p.stops![k - 1])),
+        pool.candidates,
+        pool.capacity.map((cap, j) => cap - loads[pi][j]),
+        cfg.capacityAssignment,
+        choosers[pi],
+        tripDistance,
+        rng
+      );
+      travellers.forEach((p, i) => p.stops!.push(pool.candidates[picks[i]]));
+      load.forEach((n, j) => (loads[pi][j] += n));
+    });
+  }
+
+  const overflow: BuildingOverflow[] = [];
+  pools.forEach((pool, pi) =>
+    pool.candidates.forEach((b, j) => {
+      const assigned = loads[pi][j], capacity = pool.capacity[j];
+      if (assigned > capacity) {
+        overflow.push({ kind: b.kind, activity: pool.activity, r: b.r, c: b.c, assigned, capacity });
+      }
+    })
+  );
+
+  const transit = createTransitRouter(world, nets, cfg);
+  // Routes only depend on their endpoints, so route each building pair once
+  const legCache = new Map<string, LegOptions>();
+  const optionsBetween = (a: Cell, b: Cell) => {
+    const k = `${a.r},${a.c}>${b.r},${b.c}`;
+    let options = legCache.get(k);
+    if (options === undefined) {
+      options = legOptions(world, cfg, nets, transit, a, b);
+      legCache.set(k, options);
+    }
+    return options;
+  };
+  const logit = cfg.modeChoice === "logit" ? cfg.logit : null;
+  // Expected legs per mode (sum of choice probabilities), per car cost factor
+  const expected = CAR_COST_FACTORS.map(emptyShares);
+  const { onProgress } = opts;
+  const progressEvery = Math.max(1, opts.progressEvery ?? 250);
+
+  let totalWalk = 0, totalDrive = 0, totalTimeH = 0, totalEmissions = 0, drivers = 0, unreachable = 0;
+  let totalTransit = 0, totalWaitH = 0, transitEmissions = 0, riders = 0, totalBike = 0, cyclists = 0;
+  const legsByMode: Record<TripMode, number> = { walk: 0, bike: 0, transit: 0, drive: 0 };
+  const byType = Object.fromEntries(
+    PERSON_TYPES.map((t): [PersonType, PersonTypeMetrics] => [
+      t,
+      { count: 0, at_home: 0, trips: 0, avg_travel_time_min: 0, avg_distance_m: 0, emissions_kg: 0, legs_by_mode: emptyShares() },
+    ])
+  ) as Record<PersonType, PersonTypeMetrics>;
+  // Per building: residents' first trip of the day and trips arriving there
+  const perBuilding = new Map(
+    world.buildings.map((b) => [b, { residents: 0, visitors: 0, commuteMin: 0, commutes: 0, arrivalMin: 0, arrivals: 0 }])
+  );
+  type BuildingTally = NonNullable<ReturnType<typeof perBuilding.get>>;
+  // Drive legs and the tallies their travel time went into, for congestion
+  const driveLegs: {
+    a: Cell;
+    b: Cell;
+    slice: number;
+    group: PersonTypeMetrics;
+    home?: BuildingTally;
+    stop?: BuildingTally;
+    timed: TimedLeg;
+  }[] = [];
+  // Departure times come from their own stream so they leave the other draws as they were
+  const tod = cfg.timeOfDay;
+  const clock = createRng(cfg.seed + 1);
+  const dwellH = Math.max(tod.minDwellMin, 0) / 60;
+  // Each person's legs in order, tallied into slices once congestion is known
+  type TimedLeg = { departH: number; hours: number; emissionsKg: number; mode: TripMode | null; agentLeg?: AgentLeg };
+  const days: TimedLeg[][] = [];
+  // Chosen legs per mode and end cells, expanded into cell paths at the end
+  const legCounts = new Map<string, { mode: TripMode; a: Cell; b: Cell; count: number }>();
+  let peopleDone = 0, legsRouted = 0;
+  // Every stride-th person's day is recorded for playback
+  const maxTracks = Math.max(0, opts.agentTracks ?? DEFAULT_AGENT_TRACKS);
+  const trackStride = Math.max(1, Math.ceil(population / Math.max(maxTracks, 1)));
+  const tracks: AgentTrack[] = [];
+  // Cells a leg passes through; straight from end to end unless distances are by road
+  const legPath = (mode: TripMode, a: Cell, b: Cell) => {
+    const path = cfg.distanceMode !== "road" ? null : mode === "transit" ? transit.path(a, b) : nets[mode].path(a, b);
+    return path ? path.map((i): Cell => ({ r: Math.floor(i / world.cols), c: i % world.cols })) : [{ r: a.r, c: a.c }, { r: b.r, c: b.c }];
+  };
+
+  for (const p of people) {
+    perBuilding.get(p.house!)!.residents++;
+    p.stops!.forEach((b) => perBuilding.get(b)!.visitors++);
+    const vot = logit ? tasteMultiplier(rng, logit.tasteSd) : 1;
+    const day = p.stops!.length ? [p.house!, ...p.stops!, p.house!] : [];
+    const legs = day.slice(1).map((b, i) => tripEnds(day[i], b));
+    const group = byType[p.type!];
+    group.count++;
+    if (!legs.length) group.at_home++;
+    let personDrove = false, personRode = false, personCycled = false;
+    let readyH = 0;  // earliest the next leg can leave
+    const timedDay: TimedLeg[] = [];
+    days.push(timedDay);
+    const track: AgentTrack | null =
+      maxTracks && legs.length && peopleDone % trackStride === 0 ? { type: p.type!, legs: [] } : null;
+    for (let i = 0; i < legs.length; i++) {
+      const [a, b] = legs[i];
+      const options = optionsBetween(a, b);
+      let leg: Leg | null;
+      if (logit) {
+        CAR_COST_FACTORS.forEach((f, fi) => {
+          const probs = logitProbabilities(options, logit, vot, f);
+          for (const mode of TRIP_MODES) expected[fi][mode] += probs[mode] ?? 0;
+        });
+        const mode = sampleMode(logitProbabilities(options, logit, vot), rng);
+        leg = mode && options[mode]!;
+      } else {
+        leg = chooseByThreshold(options, cfg);
+        if (leg) expected[CAR_COST_FACTORS.indexOf(1)][leg.mode]++;
+      }
+      legsRouted++;
+      group.trips++;
+      const departH = sampleDeparture(tod.departures[departurePeriod(i, p.activities!)], readyH, clock);
+      readyH = departH + (leg?.hours ?? 0) + dwellH;
+      const timed: TimedLeg = { departH, hours: leg?.hours ?? 0, emissionsKg: leg?.emissionsKg ?? 0, mode: leg?.mode ?? null };
+      timedDay.push(timed);
+      if (!leg) {
+        unreachable++;
+        personDrove = true;
+        continue;
+      }
+      const d = leg.meters;
+      const lk = `${leg.mode}:${a.r},${a.c}>${b.r},${b.c}`;
+      const counted = legCounts.get(lk);
+      if (counted) counted.count++;
+      else legCounts.set(lk, { mode: leg.mode, a, b, count: 1 });
+      legsByMode[leg.mode]++;
+      group.legs_by_mode[leg.mode]++;
+      group.avg_travel_time_min += leg.hours * 60;
+      group.avg_distance_m += d + leg.accessM;
+      group.emissions_kg += leg.emissionsKg;
+      totalTimeH += leg.hours;
+      totalEmissions += leg.emissionsKg;
+      if (track) {
+        timed.agentLeg = { mode: leg.mode, depart_h: departH, arrive_h: departH + leg.hours, path: legPath(leg.mode, a, b) };
+        track.legs.push(timed.agentLeg);
+      }
+      const home = i === 0 ? perBuilding.get(p.house!)! : undefined;
+      if (home) {
+        home.commuteMin += leg.hours * 60;
+        home.commutes++;
+      }
+      const stop = i < legs.length - 1 ? perBuilding.get(day[i + 1])! : undefined;
+      if (stop) {
+        stop.arrivalMin += leg.hours * 60;
+        stop.arrivals++;
+      }
+      if (leg.mode === "drive") {
+        totalDrive += d; personDrove = true;
+        driveLegs.push({ a, b, slice: sliceOf(departH, tod), group, home, stop, timed });
+      } else if (leg.mode === "transit") {
+        totalTransit += d;
+        totalWalk += leg.accessM;
+        totalWaitH += leg.waitH;
+        transitEmissions += leg.emissionsKg;
+        personRode = true;
+      } else if (leg.mode === "bike") {
+        totalBike += d;
+        personCycled = true;
+      } else {
+        totalWalk += d;
+      }
+    }
+    if (personDrove) drivers++;
+    if (personRode) riders++;
+    if (personCycled) cyclists++;
+    if (track) tracks.push(track);
+    peopleDone++;
+    if (onProgress && (peopleDone % progressEvery === 0 || peopleDone === population)) {
+      onProgress({ peopleDone, legsRouted, total: population });
+    }
+  }
+
+  // Legs passing through each cell, by mode; only road distances have paths
+  const cellTrips = new Map<number, Record<TripMode, number>>();
+  if (cfg.distanceMode === "road") {
+    for (const { mode, a, b, count } of legCounts.values()) {
+      const path = mode === "transit" ? transit.path(a, b) : nets[mode].path(a, b);
+      for (const i of path ?? []) {
+        let tally = cellTrips.get(i);
+        if (!tally) cellTrips.set(i, (tally = emptyShares()));
+        tally[mode] += count;
+      }
+    }
+  }
+
+  // Congestion: each slice's drive legs are assigned as a steady hourly
+  // flow, and every leg pays its slice's delay in time and idling emissions
+  let traffic: TrafficMetrics | null = null;
+  let roadLoads: RoadLoad[] = [];
+  const tc = cfg.traffic;
+  if (tc.assignment !== "off" && cfg.distanceMode === "road" && driveLegs.length) {
+    const sliceH = Math.max(tod.sliceMinutes, 1) / 60;
+    const speeds = networkSpeeds(world, "drive", cfg);
+    const ends = driveLegs.map(({ a, b }) => [nets.drive.snap(a), nets.drive.snap(b)] as const);
+    const bySlice = new Map<number, number[]>();
+    driveLegs.forEach((leg, i) => {
+      const list = bySlice.get(leg.slice);
+      if (list) list.push(i);
+      else bySlice.set(leg.slice, [i]);
+    });
+    let delayH = 0, iterations = 0, relativeGap = 0;
+    let peak: { slice: number; legs: number; result: ReturnType<typeof assignTraffic> } | null = null;
+    for (const [si, legIds] of bySlice) {
+      const demand = new Map<string, TrafficDemand>();
+      for (const id of legIds) {
+        const [from, to] = ends[id];
+        if (from === null || to === null) continue;
+        const k = `${from}>${to}`;
+        const d = demand.get(k);
+        if (d) d.vehPerH += 1 / sliceH;
+        else demand.set(k, { from, to, vehPerH: 1 / sliceH });
+      }
+      const result = assignTraffic(world, speeds, [...demand.values()], tc);
+      iterations = Math.max(iterations, result.iterations);
+      relativeGap = Math.max(relativeGap, result.relativeGap);
+      if (!peak || legIds.length > peak.legs) peak = { slice: si, legs: legIds.length, result };
+      for (const id of legIds) {
+        const [from, to] = ends[id];
+        const od = from === null || to === null ? null : result.odHours(from, to);
+        if (!od) continue;
+        const leg = driveLegs[id];
+        const h = Math.max(od.congested - od.free, 0);
+        const kg = h * Math.max(tc.idleEmissionsKgPerH, 0);
+        delayH += h;
+        totalTimeH += h;
+        totalEmissions += kg;
+        leg.timed.hours += h;
+        leg.timed.emissionsKg += kg;
+        leg.group.avg_travel_time_min += h * 60;
+        leg.group.emissions_kg += kg;
+        if (leg.home) leg.home.commuteMin += h * 60;
+        if (leg.stop) leg.stop.arrivalMin += h * 60;
+      }
+    }
+    traffic = {
+      assignment: tc.assignment,
+      iterations,
+      relative_gap: relativeGap,
+      peak_slice_start_hour: (peak!.slice * tod.sliceMinutes) / 60,
+      peak_vehicles_per_h: peak!.legs / sliceH,
+      vehicle_hours_delay: delayH,
+      avg_delay_min_per_drive_leg: (delayH / driveLegs.length) * 60,
+    };
+    const { volume, capacity } = peak!.result;
+    const alpha = Math.max(tc.bprAlpha, 0), beta = Math.max(tc.bprBeta, 0);
+    for (let i = 0; i < volume.length; i++) {
+      if (volume[i] <= 0) continue;
+      const vc = capacity[i] > 0 ? volume[i] / capacity[i] : 0;
+      roadLoads.push({
+        r: Math.floor(i / world.cols),
+        c: i % world.cols,
+        volume: volume[i],
+        capacity: capacity[i],
+        vc_ratio: vc,
+        speed_ratio: 1 / (1 + alpha * Math.pow(vc, beta)),
+      });
+    }
+    roadLoads = roadLoads.sort((x, y) => y.vc_ratio - x.vc_ratio);
+  }
+
+  // Departures were drawn before congestion delay was known: push later legs
+  // back so nobody leaves before they arrived and stayed, keep them within
+  // the day (the last slice takes any overflow), then tally the slices
+  const slices = Array.from({ length: sliceCount(tod) }, () => ({ trips: 0, reached: 0, timeH: 0, emissionsKg: 0, legs: emptyShares() }));
+  for (const day of days) {
+    let readyH = 0;
+    for (const leg of day) {
+      leg.departH = Math.max(leg.departH, Math.min(readyH, DAY_END_H));
+      readyH = leg.departH + leg.hours + dwellH;
+      const slice = slices[sliceOf(leg.departH, tod)];
+      slice.trips++;
+      if (!leg.mode) continue;
+      slice.reached++;
+      slice.legs[leg.mode]++;
+      slice.timeH += leg.hours;
+      slice.emissionsKg += leg.emissionsKg;
+      if (leg.agentLeg) {
+        leg.agentLeg.depart_h = leg.departH;
+        leg.agentLeg.arrive_h = Math.min(leg.departH + leg.hours, 24);
+      }
+    }
+  }
+
+  const toShares = (legs: Record<TripMode, number>) => {
+    const total = TRIP_MODES.reduce((acc, m) => acc + legs[m], 0);
+    const shares = emptyShares();
+    for (const m of TRIP_MODES) shares[m] = legs[m] / Math.max(total, 1e-9);
+    return shares;
+  };
+  // Totals so far; turn them into per-person averages
+  for (const t of PERSON_TYPES) {
+    const g = byType[t];
+    g.avg_travel_time_min /= Math.max(g.count, 1);
+    g.avg_distance_m /= Math.max(g.count, 1);
+  }
+  const boundaryPenalty = (travel_in + travel_out) * Math.max(0, cfg.boundaryPenaltyKgPerPerson);
+
+  return {
+    ok: true,
+    metrics: {
+      population,
+      avg_walk_m_per_day: totalWalk / Math.max(population, 1),
+      avg_drive_m_per_day: totalDrive / Math.max(population, 1),
+      avg_travel_time_min_per_day: (totalTimeH / Math.max(population, 1)) * 60,
+      total_emissions_kg_per_day: totalEmissions + boundaryPenalty,
+      drivers_count: drivers,
+      avg_bike_m_per_day: totalBike / Math.max(population, 1),
+      cyclists_count: cyclists,
+      transit_riders: riders,
+      avg_transit_m_per_day: totalTransit / Math.max(population, 1),
+      avg_transit_wait_min: (totalWaitH / Math.max(legsByMode.transit, 1)) * 60,
+      transit_emissions_kg_per_day: transitEmissions,
+      legs_by_mode: legsByMode,
+      overflow,
+      housing,
+      housing_vacancy_rate: 1 - population / Math.max(totalCap, 1),
+      by_person_type: byType,
+      unserved_stops: unservedStops,
+      building_stats: world.buildings.map((b): BuildingStats => {
+        const s = perBuilding.get(b)!;
+        return {
+          r: b.r,
+          c: b.c,
+          residents: s.residents,
+          visitors: s.visitors,
+          avg_resident_commute_min: s.commuteMin / Math.max(s.commutes, 1),
+          avg_visitor_trip_min: s.arrivalMin / Math.max(s.arrivals, 1),
+        };
+      }),
+      cell_trips: [...cellTrips].map(([i, legs]): CellTrips => ({ r: Math.floor(i / world.cols), c: i % world.cols, legs })),
+      time_slices: slices.map((sl, i): TimeSlice => ({
+        start_hour: (i * tod.sliceMinutes) / 60,
+        trips: sl.trips,
+        legs_by_mode: sl.legs,
+        emissions_kg: sl.emissionsKg,
+        avg_travel_time_min: (sl.timeH / Math.max(sl.reached, 1)) * 60,
+      })),
+      traffic,
+      road_loads: roadLoads,
+      agent_tracks: tracks,
+      expected_mode_share: toShares(expected[CAR_COST_FACTORS.indexOf(1)]),
+      mode_share_by_car_cost: logit
+        ? CAR_COST_FACTORS.map((factor, fi) => ({ factor, share: toShares(expected[fi]) }))
+        : [],
+      unreachable_legs: unreachable,
+      travel_in,
+      travel_out,
+      seed: cfg.seed,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { createHeap } from "./routing";
+import type { RoadClass, World } from "./types";
+
+// "off" skips the step; "all-or-nothing" loads every trip onto its free-flow
+// route once; the others iterate toward user equilibrium
+export type TrafficAssignment = "off" | "all-or-nothing" | "msa" | "frank-wolfe";
+
+export type TrafficConfig = {
+  assignment: TrafficAssignment;
+  maxIterations: number;
+  capacityVehPerH: Record<RoadClass, number>;  // per road cell
+  bprAlpha: number;
+  bprBeta: number;
+  idleEmissionsKgPerH: number;  // extra CO2 per hour spent stuck in traffic
+};
+
+// Upper bound on assignment passes, so a typo cannot stall a run
+export const MAX_TRAFFIC_ITERATIONS = 500;
+
+export function defaultTrafficConfig(): TrafficConfig {
+  return {
+    assignment: "frank-wolfe",
+    maxIterations: 30,
+    capacityVehPerH: { local: 600, arterial: 1600, highway: 4000, path: 0 },
+    bprAlpha: 0.15,
+    bprBeta: 4,
+    idleEmissionsKgPerH: 2,
+  };
+}
+
+// Vehicles per hour between two network cells (cell indices r * cols + c)
+export type TrafficDemand = { from: number; to: number; vehPerH: number };
+
+export type TrafficResult = {
+  volume: Float64Array;  // veh/h entering each cell
+  capacity: Float64Array;  // veh/h per cell, 0 off the drive network
+  iterations: number;
+  relativeGap: number;  // (total time − shortest-path time) / total time; 0 at equilibrium
+  // Hours from one network cell to another at free-flow and congested speeds
+  odHours(from: number, to: number): { free: number; congested: number } | null;
+};
+
+// Stop once the relative gap is below this
+const GAP_TOLERANCE = 1e-4;
+const LINE_SEARCH_STEPS = 30;
+
+// BPR volume-delay: hours to enter a cell at free-flow time t0 carrying volume v
+export function bprHours(t0: number, v: number, capacity: number, alpha: number, beta: number) {
+  return capacity > 0 ? t0 * (1 + alpha * Math.pow(v / capacity, beta)) : t0;
+}
+
+// Static user-equilibrium assignment on the drive network. Each iteration
+// loads all demand onto current shortest paths (all-or-nothing) and moves
+// the flows toward it, by 1/k (MSA) or by the step minimising the Beckmann
+// objective (Frank-Wolfe).
+export function assignTraffic(
+  world: Pick<World, "rows" | "cols" | "cellSizeM" | "roads">,
+  speedKmh: Float64Array,
+  demand: TrafficDemand[],
+  cfg: TrafficConfig
+): TrafficResult {
+  const { rows, cols } = world;
+  const n = rows * cols;
+  const km = world.cellSizeM / 1000;
+  const t0 = speedKmh.map((s) => (s > 0 ? km / s : Infinity));
+  const capacity = new Float64Array(n);
+  for (const [k, cls] of world.roads) {
+    const [r, c] = k.split(",").map(Number);
+    if (r >= 0 && c >= 0 && r < rows && c < cols) capacity[r * cols + c] = cfg.capacityVehPerH[cls] ?? 0;
+  }
+  const alpha = Math.max(cfg.bprAlpha, 0), beta = Math.max(cfg.bprBeta, 0);
+  const cellHours = (v: Float64Array) => t0.map((t, i) => (t === Infinity ? t : bprHours(t, v[i], capacity[i], alpha, beta)));
+
+  const byOrigin = new Map<number, TrafficDemand[]>();
+  for (const d of demand) {
+    if (d.vehPerH <= 0 || d.from === d.to) continue;
+    const list = byOrigin.get(d.from);
+    if (list) list.push(d);
+    else byOrigin.set(d.from, [d]);
+  }
+
+  // Shortest paths from one cell where entering cell i takes hours[i]
+  const tree = (origin: number, hours: Float64Array) => {
+    const dist = new Float64Array(n).fill(Infinity);
+    const prev = new Int32Array(n).fill(-1);
+    dist[origin] = 0;
+    const heap = createHeap();
+    heap.push(origin, 0);
+    while (heap.size) {
+      const { item: cur, key } = heap.pop();
+      if (key > dist[cur]) continue;
+      const r = (cur / cols) | 0, c = cur - r * cols;
+      const relax = (j: number) => {
+        const h = key + hours[j];
+        if (h >= dist[j]) return;
+        dist[j] = h;
+        prev[j] = cur;
+        heap.push(j, h);
+      };
+      if (r + 1 < rows) relax(cur + cols);
+      if (r > 0) relax(cur - cols);
+      if (c + 1 < cols) relax(cur + 1);
+      if (c > 0) relax(cur - 1);
+    }
+    return { dist, prev };
+  };
+
+  // All-or-nothing: every trip on its current shortest path. Also returns
+  // the total shortest-path time, for the relative gap.
+  const allOrNothing = (hours: Float64Array) => {
+    const load = new Float64Array(n);
+    let spTime = 0;
+    for (const [origin, list] of byOrigin) {
+      const { dist, prev } = tree(origin, hours);
+      for (const d of list) {
+        if (dist[d.to] === Infinity) continue;
+        spTime += d.vehPerH * dist[d.to];
+        for (let i = d.to; i !== origin; i = prev[i]) load[i] += d.vehPerH;
+      }
+    }
+    return { load, spTime };
+  };
+
+  const totalTime = (v: Float64Array, hours: Float64Array) => v.reduce((s, x, i) => (x > 0 ? s + x * hours[i] : s), 0);
+
+  const iterate = cfg.assignment === "msa" || cfg.assignment === "frank-wolfe";
+  let volume = allOrNothing(t0).load;
+  let iterations = 0, relativeGap = 0;
+  for (let k = 1; ; k++) {
+    const hours = cellHours(volume);
+    const { load, spTime } = allOrNothing(hours);
+    const tt = totalTime(volume, hours);
+    relativeGap = tt > 0 ? Math.max(0, (tt - spTime) / tt) : 0;
+    if (!iterate || k > cfg.maxIterations || relativeGap < GAP_TOLERANCE) break;
+    const step = cfg.assignment === "msa" ? 1 / (k + 1) : lineSearch(volume, load);
+    volume = volume.map((v, i) => v + step * (load[i] - v));
+    iterations = k;
+  }
+
+  // Frank-Wolfe step: the root of the objective's derivative along v → y,
+  // Σ (y − v) · t(v + λ(y − v)), which rises with λ
+  function lineSearch(v: Float64Array, y: Float64Array) {
+    const slope = (lambda: number) => {
+      let s = 0;
+      for (let i = 0; i < n; i++) {
+        const dv = y[i] - v[i];
+        if (dv !== 0) s += dv * bprHours(t0[i], v[i] + lambda * dv, capacity[i], alpha, beta);
+      }
+      return s;
+    };
+    if (slope(1) <= 0) return 1;
+    let lo = 0, hi = 1;
+    for (let i = 0; i < LINE_SEARCH_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      if (slope(mid) > 0) hi = mid;
+      else lo = mid;
+    }
+    return (lo + hi) / 2;
+  }
+
+  const congestedHours = cellHours(volume);
+  const trees = new Map<number, { free: Float64Array; congested: Float64Array }>();
+  return {
+    volume,
+    capacity,
+    iterations,
+    relativeGap,
+    odHours(from, to) {
+      let t = trees.get(from);
+      if (!t) {
+        t = { free: tree(from, t0).dist, congested: tree(from, congestedHours).dist };
+        trees.set(from, t);
+      }
+      return t.free[to] === Infinity ? null : { free: t.free[to], congested: t.congested[to] };
+    },
+  };
+}
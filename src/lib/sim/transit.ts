@@ -0,0 +1,98 @@
+import type { RoadNetworks } from "./routing";
+import type { Cell, SimConfig, TransitLine, World } from "./types";
+
+export type TransitTrip = {
+  lineId: number;
+  board: number;  // stop indices on the line
+  alight: number;
+  accessM: number;  // walk to the boarding stop plus from the alighting stop
+  rideM: number;
+  waitH: number;
+  hours: number;    // walking + waiting + riding
+  emissionsKg: number;
+};
+
+export type TransitRouter = {
+  route(a: Cell, b: Cell): TransitTrip | null;
+  // Cell indices of the walk to the stop, the ride and the walk from it
+  path(a: Cell, b: Cell): number[] | null;
+};
+
+// Walk to a stop, ride, walk from a stop. Vehicles follow the fastest drivable
+// route between consecutive stops and run in both directions; a stop pair with
+// no drivable route splits the line, and riders cannot cross the gap.
+export function createTransitRouter(
+  world: World,
+  nets: RoadNetworks,
+  cfg: Pick<SimConfig, "walkMaxM">
+): TransitRouter {
+  const prepared = world.transitLines
+    .filter((line) => line.stops.length >= 2)
+    .map((line) => {
+      const cum = [0];      // ride cells from the first stop
+      const section = [0];  // stops in the same section are mutually reachable
+      for (let i = 1; i < line.stops.length; i++) {
+        const seg = nets.drive.route(line.stops[i - 1], line.stops[i]);
+        cum.push(cum[i - 1] + (seg?.cells ?? 0));
+        section.push(section[i - 1] + (seg ? 0 : 1));
+      }
+      return { line, cum, section };
+    });
+
+  const bestOnLine = (line: TransitLine, cum: number[], section: number[], a: Cell, b: Cell) => {
+    const access = line.stops.map((s) => nets.walk.route(a, s));
+    const egress = line.stops.map((s) => nets.walk.route(s, b));
+    const waitH = Math.max(line.headwayMin, 0) / 2 / 60;
+    let best: TransitTrip | null = null;
+    for (let i = 0; i < line.stops.length; i++) {
+      const acc = access[i];
+      if (!acc || acc.cells * world.cellSizeM > cfg.walkMaxM) continue;
+      for (let j = 0; j < line.stops.length; j++) {
+        const egr = egress[j];
+        if (i === j || !egr || section[i] !== section[j]) continue;
+        if (egr.cells * world.cellSizeM > cfg.walkMaxM) continue;
+        const rideM = Math.abs(cum[j] - cum[i]) * world.cellSizeM;
+        if (rideM === 0) continue;
+        const hours = acc.hours + egr.hours + waitH + (rideM / 1000) / Math.max(line.speedKmh, 1e-6);
+        if (best && hours >= best.hours) continue;
+        best = {
+          lineId: line.id,
+          board: i,
+          alight: j,
+          accessM: (acc.cells + egr.cells) * world.cellSizeM,
+          rideM,
+          waitH,
+          hours,
+          emissionsKg: (rideM / 1000) * line.emissionsKgPerPaxKm,
+        };
+      }
+    }
+    return best;
+  };
+
+  const route = (a: Cell, b: Cell) => {
+    let best: TransitTrip | null = null;
+    for (const { line, cum, section } of prepared) {
+      const trip = bestOnLine(line, cum, section, a, b);
+      if (trip && (!best || trip.hours < best.hours)) best = trip;
+    }
+    return best;
+  };
+
+  return {
+    route,
+    path(a, b) {
+      const trip = route(a, b);
+      const line = trip && world.transitLines.find((l) => l.id === trip.lineId);
+      if (!trip || !line) return null;
+      const step = trip.alight > trip.board ? 1 : -1;
+      // Consecutive pieces share their end cells; count those once
+      const cells: number[] = [];
+      const append = (part: number[] | null) => part?.forEach((i) => cells[cells.length - 1] !== i && cells.push(i));
+      append(nets.walk.path(a, line.stops[trip.board]));
+      for (let i = trip.board; i !== trip.alight; i += step) append(nets.drive.path(line.stops[i], line.stops[i + step]));
+      append(nets.walk.path(line.stops[trip.alight], b));
+      return cells;
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import type { Activity, ActivityConfig, PersonType } from "./activities";
+import type { CapacityMode } from "./assignment";
+import type { LogitConfig } from "./choice";
+import type { HousingModel } from "./housing";
+import type { TimeOfDayConfig } from "./departures";
+import type { DestinationModel } from "./destination";
+import type { TrafficAssignment, TrafficConfig } from "./traffic";
+
+export type Cell = { r: number; c: number };
+export type BuildingKind = "house" | "work" | "food" | "school" | "retail" | "park" | "healthcare" | "mixed";
+// Rectangular footprint of w × h cells with its top-left cell at (r, c)
+export type Building = { kind: BuildingKind; r: number; c: number; w: number; h: number; floors: number; baseCapacity: number };
+export type Person = {
+  id: number;
+  type?: PersonType;
+  activities?: Activity[];  // the day's chain
+  house?: Building;
+  stops?: Building[];  // one per activity
+};
+
+export type DistanceMode = "road" | "euclid" | "manhattan";
+export type ModeChoiceModel = "threshold" | "logit";
+export type TravelMode = "walk" | "bike" | "drive";
+export type TripMode = TravelMode | "transit";
+
+export type RoadClass = "local" | "arterial" | "highway" | "path";
+// Road cells keyed by "r,c"
+export type RoadNetwork = Map<string, RoadClass>;
+
+// Bus/tram line running both ways through its stops in order
+export type TransitLine = {
+  id: number;
+  name: string;
+  stops: Cell[];  // on road cells
+  speedKmh: number;
+  headwayMin: number;
+  emissionsKgPerPaxKm: number;
+};
+
+// Everything the engine needs to know about the city layout
+export type World = {
+  rows: number;
+  cols: number;
+  cellSizeM: number;
+  roads: RoadNetwork;
+  walkways: Set<string>;  // walk-only cells (sidewalks, plazas, parks), "r,c" keys
+  bikeLanes: Set<string>;  // cells with a bike lane, "r,c" keys
+  transitLines: TransitLine[];
+  buildings: Building[];
+};
+
+export type SimConfig = {
+  population: number;
+  walkMaxM: number;
+  carEmissionsKgPerKm: number;
+  walkEmissionsKgPerKm: number;
+  carSpeed: number;   // km/h, used by the euclid/manhattan distance modes
+  walkSpeed: number;  // km/h
+  bikeSpeed: number;  // km/h off bike lanes
+  bikeLaneSpeedKmh: number;
+  bikeMaxM: number;   // comfortable cycling distance at bikeSpeed; 0 disables cycling
+  bikeEmissionsKgPerKm: number;
+  distanceMode: DistanceMode;
+  roadSpeedsKmh: Record<RoadClass, number>;  // car speed per road class in road mode
+  transitMaxTimeRatio: number;  // ride transit when it takes at most this × the drive time
+  destinationModel: DestinationModel;
+  destinationDecayPerKm: number;  // gravity model distance decay
+  housingModel: HousingModel;
+  activities: ActivityConfig;
+  capacityAssignment: CapacityMode;  // respect jobsPerWorkplace / mealsPerFoodPlace per building
+  traffic: TrafficConfig;
+  timeOfDay: TimeOfDayConfig;
+  modeChoice: ModeChoiceModel;
+  logit: LogitConfig;
+  jobsPerWorkplace: number;
+  mealsPerFoodPlace: number;
+  boundaryPenaltyKgPerPerson: number;
+  seed: number;
+};
+
+export type Metrics = {
+  population: number;
+  avg_walk_m_per_day: number;
+  avg_drive_m_per_day: number;
+  avg_travel_time_min_per_day: number;
+  total_emissions_kg_per_day: number;
+  drivers_count: number;
+  avg_bike_m_per_day: number;
+  cyclists_count: number;
+  transit_riders: number;
+  avg_transit_m_per_day: number;
+  avg_transit_wait_min: number;  // per transit leg
+  transit_emissions_kg_per_day: number;
+  legs_by_mode: Record<TripMode, number>;
+  overflow: BuildingOverflow[];
+  housing: HouseOccupancy[];
+  housing_vacancy_rate: number;  // vacant share of all housing units
+  by_person_type: Record<PersonType, PersonTypeMetrics>;
+  unserved_stops: number;  // chain stops skipped because no building hosts the activity
+  building_stats: BuildingStats[];
+  cell_trips: CellTrips[];  // cells any leg passed through; empty unless distances are by road
+  time_slices: TimeSlice[];  // the day in timeOfDay.sliceMinutes steps
+  traffic: TrafficMetrics | null;  // null when traffic assignment is off or not on roads
+  road_loads: RoadLoad[];  // loaded road cells in the busiest slice, most congested first
+  agent_tracks: AgentTrack[];  // an evenly spaced sample of people's days, for playback
+  expected_mode_share: Record<TripMode, number>;  // choice probabilities averaged over legs
+  mode_share_by_car_cost: { factor: number; share: Record<TripMode, number> }[];  // logit only
+  unreachable_legs: number;
+  travel_in: number;   // inbound commuters
+  travel_out: number;  // outbound commuters
+  seed: number;        // rng seed the run used, for reproducing it
+};
+
+export type SimProgress = {
+  peopleDone: number;
+  legsRouted: number;
+  total: number;  // people to process
+};
+
+// A building assigned more people than it has room for in one activity
+export type BuildingOverflow = {
+  kind: BuildingKind;
+  activity: Activity;
+  r: number;
+  c: number;
+  assigned: number;
+  capacity: number;
+};
+
+export type HouseOccupancy = {
+  r: number;
+  c: number;
+  occupants: number;
+  capacity: number;
+};
+
+// Daily travel of one person type
+export type PersonTypeMetrics = {
+  count: number;
+  at_home: number;  // people with no trips that day
+  trips: number;
+  avg_travel_time_min: number;
+  avg_distance_m: number;
+  emissions_kg: number;
+  legs_by_mode: Record<TripMode, number>;
+};
+
+// Who lives at and travels to one building, keyed by its top-left cell
+export type BuildingStats = {
+  r: number;
+  c: number;
+  residents: number;
+  visitors: number;  // stops made here during the day
+  avg_resident_commute_min: number;  // residents' first trip of the day
+  avg_visitor_trip_min: number;  // trips arriving here
+};
+
+// Legs of the day passing through one cell, by the mode they used
+export type CellTrips = {
+  r: number;
+  c: number;
+  legs: Record<TripMode, number>;
+};
+
+export type TrafficMetrics = {
+  assignment: TrafficAssignment;
+  iterations: number;
+  relative_gap: number;
+  peak_slice_start_hour: number;  // the slice with the most drive legs
+  peak_vehicles_per_h: number;  // drive legs per hour in that slice
+  vehicle_hours_delay: number;  // per day, over free-flow times
+  avg_delay_min_per_drive_leg: number;
+};
+
+// Legs departing in one slice of the day
+export type TimeSlice = {
+  start_hour: number;
+  trips: number;
+  legs_by_mode: Record<TripMode, number>;
+  emissions_kg: number;
+  avg_travel_time_min: number;  // per leg, congestion included
+};
+
+// Traffic on one road cell in the busiest slice
+export type RoadLoad = {
+  r: number;
+  c: number;
+  volume: number;  // veh/h
+  capacity: number;  // veh/h
+  vc_ratio: number;
+  speed_ratio: number;  // congested / free-flow speed
+};
+
+// One recorded leg; the agent covers the path cells at an even pace
+export type AgentLeg = {
+  mode: TripMode;
+  depart_h: number;  // hours after midnight
+  arrive_h: number;  // congestion delay included
+  path: Cell[];  // origin first
+};
+
+export type AgentTrack = {
+  type: PersonType;
+  legs: AgentLeg[];  // unreachable legs are left out
+};
+
+// A run either produces metrics or a human-readable reason it could not start
+export type SimResult =
+  | { ok: true; metrics: Metrics }
+  | { ok: false; error: string };
@@ -0,0 +1,39 @@
+// Runs the engine off the main thread. Posts progress while routing and the
+// final SimResult when done; cancellation is done by terminating the worker.
+import { createRoadNetworks, type RoadNetworks } from "./routing";
+import { runSimulation } from "./simulate";
+import type { SimConfig, SimProgress, SimResult, World } from "./types";
+
+export type WorkerRequest = { type: "run"; id: number; world: World; cfg: SimConfig };
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: SimProgress }
+  | { type: "done"; id: number; result: SimResult };
+
+const ctx = self as unknown as Worker;
+
+// Maps and sets arrive as fresh copies, so remember the road network by content
+let cached: { key: string; networks: RoadNetworks } | null = null;
+
+function networksFor(world: World, cfg: SimConfig) {
+  const roads = [
+    [...world.roads].map(([k, cls]) => `${k}:${cls}`).join(";"),
+    [...world.walkways].join(";"),
+    [...world.bikeLanes].join(";"),
+  ].join("|");
+  const speeds = JSON.stringify([cfg.walkSpeed, cfg.bikeSpeed, cfg.bikeLaneSpeedKmh, cfg.roadSpeedsKmh]);
+  const key = `${world.rows}x${world.cols}x${world.cellSizeM}:${speeds}:${roads}`;
+  if (cached?.key !== key) {
+    cached = { key, networks: createRoadNetworks(world, cfg) };
+  }
+  return cached.networks;
+}
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { id, world, cfg } = e.data;
+  const post = (msg: WorkerResponse) => ctx.postMessage(msg);
+  const result = runSimulation(world, cfg, {
+    networks: networksFor(world, cfg),
+    onProgress: (progress) => post({ type: "progress", id, progress }),
+  });
+  post({ type: "done", id, result });
+};